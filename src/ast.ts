@@ -0,0 +1,330 @@
+/**
+ * The parser as a public API: `parse(template)` returns the nodes of a
+ * template, and `print(nodes)` writes them back.
+ *
+ * Every node has the span of the template it was parsed from, markers as
+ * written (in their syntax profile, with their trim flags and the
+ * whitespace these remove), so printing parsed nodes gives back the exact
+ * template. Included partials print as their `include` marker.
+ *
+ * `ParseTemplate<Template>` is the type of the nodes of a literal template,
+ * with its text, conditions and expressions known; offsets and spans are
+ * `number` and `SourceSpan`.
+ */
+
+import type {
+    ConditionNode,
+    InterpolationNode,
+    ParseCondition,
+    ParseInterpolation,
+} from "./condition.js";
+import type { CheckedTemplate, PreparedTemplate } from "./conditionalString.js";
+import type { ParseEachSpec } from "./each.js";
+import type { NoPartials, TemplatePartials } from "./include.js";
+import {
+    type BranchNode,
+    type ClauseNode,
+    type EachNode,
+    type IfNode,
+    type IncludeNode,
+    type IsDirective,
+    type ListNode,
+    type NormalizeTemplate,
+    type ParameterNode,
+    parseTemplate,
+    type TemplateNode,
+    type TextNode,
+    type TrimEnd,
+    type TrimStart,
+    type ValueNode,
+} from "./parser.js";
+import type { CommentText } from "./raw.js";
+import type { SyntaxProfile } from "./syntax.js";
+
+/**
+ * How `parse` reads a template.
+ */
+export interface ParseOptions<
+    Syntax extends SyntaxProfile = "c",
+    Partials extends TemplatePartials = NoPartials,
+> {
+    /**
+     * How markers are written: `"c"` (the default), `"html"`, `"sql"`,
+     * `"mustache"` or custom `{ open, close }` delimiters.
+     */
+    syntax?: Syntax;
+
+    /**
+     * Partials the template can include with `/*include:name* /`.
+     */
+    partials?: Partials;
+}
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * A block that is not closed yet: the C-style marker of its current branch,
+ * the nodes before that branch (the closed branches of a conditional
+ * block, the body of an each block in its empty branch, `null` otherwise)
+ * and the nodes of the branch so far.
+ */
+type ParseFrame = [ marker: string, previous: unknown, nodes: TemplateNode[] ];
+
+/**
+ * Add a node to the innermost block.
+ */
+type AddNode<Stack extends ParseFrame[], Node> = Stack extends [
+    ...infer Rest extends ParseFrame[],
+    [
+        infer Marker extends string,
+        infer Previous,
+        infer Nodes extends TemplateNode[],
+    ],
+] ? [ ...Rest, [ Marker, Previous, [ ...Nodes, Node ] ] ]
+    : never;
+
+type AddText<Stack extends ParseFrame[], Text extends string> = Text extends
+    "" ? Stack
+    : AddNode<Stack, TextNode<Text>>;
+
+/**
+ * Open a block with its marker.
+ */
+type OpenBlock<Stack extends ParseFrame[], Marker extends string> = [
+    ...Stack,
+    [ `/*${Marker}*/`, null, [] ],
+];
+
+/**
+ * A branch of a conditional block, from its marker and nodes.
+ */
+type ParseBranch<Marker, Nodes extends TemplateNode[]> = Marker extends
+    `/*${"if" | "elif"}:${infer Expr}*/`
+    ? ParseCondition<Expr> extends infer Condition extends ConditionNode
+        ? BranchNode<Condition, Nodes>
+    : never
+    : BranchNode<null, Nodes>;
+
+/**
+ * Close the current branch of a conditional block: the branches so far
+ * (`null` before the first is closed) with the new one.
+ */
+type AddBranch<
+    Previous,
+    Marker,
+    Nodes extends TemplateNode[],
+> = Previous extends BranchNode[] ? [ ...Previous, ParseBranch<Marker, Nodes> ]
+    : [ ParseBranch<Marker, Nodes> ];
+
+/**
+ * An each block, from its marker, its body and its empty branch.
+ */
+type ParseEach<Marker, Previous, Nodes extends TemplateNode[]> = Marker extends
+    `/*each:${infer Spec}*/` ? ParseEachSpec<Spec> extends [
+        infer Path extends string,
+        infer Alias extends string,
+        infer Separator extends string,
+    ] ? [ Previous ] extends [ infer Body extends TemplateNode[] ] ? EachNode<
+                Path extends `${infer Name}?` ? Name : Path,
+                Path extends `${string}?` ? true : false,
+                Alias,
+                Separator,
+                Body,
+                Nodes
+            >
+        : EachNode<
+            Path extends `${infer Name}?` ? Name : Path,
+            Path extends `${string}?` ? true : false,
+            Alias,
+            Separator,
+            Nodes,
+            null
+        >
+    : never
+    : never;
+
+/**
+ * An SQL clause or list block, from its marker and nodes.
+ */
+type ParseClause<Marker, Nodes extends TemplateNode[]> = Marker extends
+    `/*list:${infer Separator}*/` ? ListNode<Separator, Nodes>
+    : Marker extends `/*${infer Type extends "where" | "having"}*/`
+        ? ClauseNode<Type, Nodes>
+    : never;
+
+/**
+ * An interpolation or parameter marker.
+ */
+type ParseExpression<Kind, Expr extends string> = ParseInterpolation<
+    Expr
+> extends infer Expression extends InterpolationNode
+    ? Kind extends "=" ? ValueNode<Expression> : ParameterNode<Expression>
+    : never;
+
+/**
+ * Apply a directive (the text between `/*` and `* /`) to the stack of open
+ * blocks.
+ */
+type ParseDirective<
+    Marker extends string,
+    Stack extends ParseFrame[],
+    Partials extends TemplatePartials,
+    Syntax extends SyntaxProfile,
+> = Marker extends `if:${string}` | `each:${string}` | "where" | "having"
+    ? OpenBlock<Stack, Marker>
+    : Marker extends `list:${string}` ? OpenBlock<Stack, Marker>
+    : Stack extends [
+        ...infer Rest extends ParseFrame[],
+        [
+            infer Open extends string,
+            infer Previous,
+            infer Nodes extends TemplateNode[],
+        ],
+    ] ? Marker extends `elif:${string}` | "else" ? [
+            ...Rest,
+            [ `/*${Marker}*/`, AddBranch<Previous, Open, Nodes>, [] ],
+        ]
+        : Marker extends "endif"
+            ? AddNode<Rest, IfNode<AddBranch<Previous, Open, Nodes>>>
+        : Marker extends "empty" ? [ ...Rest, [ Open, Nodes, [] ] ]
+        : Marker extends "endeach"
+            ? AddNode<Rest, ParseEach<Open, Previous, Nodes>>
+        : Marker extends `end${"where" | "having" | "list"}`
+            ? AddNode<Rest, ParseClause<Open, Nodes>>
+        : Marker extends `include:${infer Spec}`
+            ? TrimEnd<TrimStart<Spec>> extends infer Name extends string
+                ? AddNode<
+                    Stack,
+                    IncludeNode<
+                        Name,
+                        ParseNodes<
+                            NormalizeTemplate<Partials[Name], Syntax>,
+                            Partials,
+                            Syntax
+                        >
+                    >
+                >
+            : never
+        : Marker extends `${infer Kind extends "=" | ":"}${infer Expr}`
+            ? AddNode<Stack, ParseExpression<Kind, Expr>>
+        : never
+    : never;
+
+/**
+ * Parse a normalized, valid template. Comments that are not directives
+ * stay in the text, escaped markers without their `\`.
+ */
+type ParseNodes<
+    Template extends string,
+    Partials extends TemplatePartials,
+    Syntax extends SyntaxProfile,
+    Stack extends ParseFrame[] = [ [ "", null, [] ] ],
+    Text extends string = "",
+> = Template extends `${infer Before}/*${infer Marker}*/${infer Rest}`
+    ? IsDirective<Marker> extends true ? ParseNodes<
+            Rest,
+            Partials,
+            Syntax,
+            ParseDirective<
+                Marker,
+                AddText<Stack, `${Text}${Before}`>,
+                Partials,
+                Syntax
+            >
+        >
+    : ParseNodes<
+        Rest,
+        Partials,
+        Syntax,
+        Stack,
+        `${Text}${Before}${CommentText<Marker>}`
+    >
+    : AddText<Stack, `${Text}${Template}`> extends [
+        [ string, unknown, infer Nodes extends TemplateNode[] ],
+    ] ? Nodes
+    : never;
+
+/**
+ * The nodes `parse` returns for a literal template, or its
+ * `TemplateSyntaxError`. `TemplateNode[]` if the template is not a literal.
+ * @example ParseTemplate<"a/*=b* /"> // [TextNode<"a">, ValueNode<InterpolationNode<PathNode<"b", false>, null>>]
+ */
+export type ParseTemplate<
+    Template extends string,
+    Syntax extends SyntaxProfile = "c",
+    Partials extends TemplatePartials = NoPartials,
+> = string extends Template ? TemplateNode[]
+    : PreparedTemplate<Template, Syntax, Partials> extends string ? ParseNodes<
+            NormalizeTemplate<Template, Syntax>,
+            Partials,
+            Syntax
+        >
+    : PreparedTemplate<Template, Syntax, Partials>;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * Parse a template into its nodes. Throws a `ConditionalStringSyntaxError`
+ * if it is not valid; a literal template that is not valid does not
+ * compile.
+ * @example parse("a/*=b* /") // [{ type: "text", value: "a", ... }, { type: "value", ... }]
+ */
+export function parse<
+    const Template extends string,
+    const Syntax extends SyntaxProfile = "c",
+    const Partials extends TemplatePartials = NoPartials,
+>(
+    template: CheckedTemplate<Template, Syntax, Partials>,
+    options: ParseOptions<Syntax, Partials> = {},
+): ParseTemplate<Template, Syntax, Partials> {
+    return parseTemplate(
+        template,
+        options.syntax,
+        options.partials,
+    ) as ParseTemplate<Template, Syntax, Partials>;
+}
+
+/**
+ * Write parsed nodes back as the template they were parsed from.
+ * @example print(parse("a /*-if:b* /c/*endif* /")) // "a /*-if:b* /c/*endif* /"
+ */
+export function print(nodes: readonly TemplateNode[]): string {
+    let result = "";
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case "text":
+            case "include":
+            case "value":
+            case "parameter":
+                result += node.span.text;
+                break;
+            case "if":
+                for (const branch of node.branches) {
+                    result += branch.span.text + print(branch.children);
+                }
+                result += node.closingSpan.text;
+                break;
+            case "each":
+                result += node.span.text + print(node.body);
+                if (node.empty !== null && node.emptySpan !== null) {
+                    result += node.emptySpan.text + print(node.empty);
+                }
+                result += node.closingSpan.text;
+                break;
+            case "where":
+            case "having":
+            case "list":
+                result += node.span.text
+                    + print(node.children)
+                    + node.closingSpan.text;
+                break;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the `conditional-string` command, see cli.ts.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { runCli } from "./cli.js";
+
+process.exitCode = runCli(process.argv.slice(2), {
+    readFile: (path) => readFileSync(path, "utf8"),
+    writeFile: (path, text) => writeFileSync(path, text),
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+});
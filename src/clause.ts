@@ -0,0 +1,140 @@
+/**
+ * SQL clause blocks: cleanup of the text left after conditional blocks.
+ *
+ * - `/*where* /.../*endwhere* /` and `/*having* /.../*endhaving* /` trim
+ *   their content and remove an `AND` or `OR` at its start (in any case).
+ *   The block renders as `WHERE content`, or as nothing if no content is
+ *   left, so templates need no `WHERE 1=1`.
+ * - `/*list:, * /.../*endlist* /` trims its content and removes the
+ *   separator (`,`, without the whitespace around it) at its start and end,
+ *   and where it repeats with only whitespace in between.
+ *
+ * The cleanup applies to the rendered text of the block, after its
+ * conditions, interpolations and parameters are processed. A block that
+ * renders empty also removes the whitespace before it, also across the
+ * blocks it is in, so that the whitespace around it does not double. The
+ * separators of each blocks are kept.
+ */
+
+import { type Whitespace } from "./condition.js";
+import { type TrimEnd, type TrimStart } from "./parser.js";
+import {
+    escapeRegExp,
+    leadingWhitespacePattern,
+    trailingWhitespacePattern,
+} from "./syntax.js";
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+type Trim<S extends string> = TrimEnd<TrimStart<S>>;
+
+/**
+ * Remove a leading `AND` or `OR` that is a word of its own.
+ */
+type StripConnector<S extends string> = Uppercase<S> extends
+    "AND" | `AND${Whitespace | "("}${string}`
+    ? S extends `${string}${string}${string}${infer Rest}` ? TrimStart<Rest>
+    : S
+    : Uppercase<S> extends "OR" | `OR${Whitespace | "("}${string}`
+        ? S extends `${string}${string}${infer Rest}` ? TrimStart<Rest>
+        : S
+    : S;
+
+type StripLeading<S extends string, Separator extends string> = TrimStart<
+    S
+> extends `${Separator}${infer Rest}` ? StripLeading<Rest, Separator>
+    : TrimStart<S>;
+
+type StripTrailing<S extends string, Separator extends string> = TrimEnd<
+    S
+> extends `${infer Rest}${Separator}` ? StripTrailing<Rest, Separator>
+    : TrimEnd<S>;
+
+/**
+ * Replace separators repeated with only whitespace in between by one.
+ */
+type CollapseSeparators<
+    S extends string,
+    Separator extends string,
+    Result extends string = "",
+> = S extends `${infer Head}${Separator}${infer Tail}`
+    ? TrimStart<Tail> extends `${Separator}${infer More}`
+        ? CollapseSeparators<`${Separator}${More}`, Separator, `${Result}${Head}`>
+    : CollapseSeparators<Tail, Separator, `${Result}${Head}${Separator}`>
+    : `${Result}${S}`;
+
+/**
+ * Clean up the rendered text of a clause block. `Clause` is its opening
+ * marker: `where`, `having` or `list:separator`.
+ * @example ApplyClause<"where", " AND a = 1 "> // "WHERE a = 1"
+ * @example ApplyClause<"list:, ", "a, b, "> // "a, b"
+ */
+export type ApplyClause<Clause extends string, Text extends string> =
+    Clause extends `list:${infer Separator}` ? CollapseSeparators<
+            StripTrailing<StripLeading<Text, Trim<Separator>>, Trim<Separator>>,
+            Trim<Separator>
+        >
+        : StripConnector<Trim<Text>> extends infer Body extends string
+            ? Body extends "" ? "" : `${Uppercase<Clause>} ${Body}`
+        : never;
+
+/**
+ * Append the cleaned-up text of a clause block to the text before it.
+ * @example AppendClause<"FROM t ", "where", " "> // "FROM t"
+ */
+export type AppendClause<
+    Before extends string,
+    Clause extends string,
+    Text extends string,
+> = ApplyClause<Clause, Text> extends infer Body extends string
+    ? Body extends "" ? TrimEnd<Before> : `${Before}${Body}`
+    : never;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * A leading `AND` or `OR` that is a word of its own.
+ */
+const connectorPattern = /^(?:and|or)(?=[ \t\r\n(]|$)/i;
+
+function trim(text: string): string {
+    return text
+        .replace(leadingWhitespacePattern, "")
+        .replace(trailingWhitespacePattern, "");
+}
+
+/**
+ * Clean up the rendered content of a `where` or `having` block.
+ * @example cleanClause("where", " AND a = 1 ") // "WHERE a = 1"
+ */
+export function cleanClause(
+    keyword: "where" | "having",
+    text: string,
+): string {
+    const body = trim(text)
+        .replace(connectorPattern, "")
+        .replace(leadingWhitespacePattern, "");
+
+    return body === "" ? "" : `${keyword.toUpperCase()} ${body}`;
+}
+
+/**
+ * Clean up the rendered content of a `list` block.
+ * @example cleanList(", ", "a, , b, ") // "a, b"
+ */
+export function cleanList(separator: string, text: string): string {
+    const token = trim(separator);
+    const escaped = escapeRegExp(token);
+
+    return trim(text)
+        .replace(new RegExp(`^(?:${escaped}[ \\t\\r\\n]*)+`), "")
+        .replace(new RegExp(`(?:[ \\t\\r\\n]*${escaped})+$`), "")
+        .replace(
+            new RegExp(`${escaped}(?:[ \\t\\r\\n]*${escaped})+`, "g"),
+            () => token,
+        );
+}
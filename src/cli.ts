@@ -0,0 +1,312 @@
+/**
+ * Command-line tool for template files:
+ * - `render <file> [--data <data.json>] [--strict]` prints the rendered
+ *   template
+ * - `check <files...>` reports the syntax errors of templates as
+ *   `file:line:column: reason`
+ * - `conditions <file>` lists the paths a template references, one per
+ *   line, as `TemplateData` reads them (`tags.[].name`, `debug?`)
+ * - `generate <files...> [--import <module>]` writes the typed module of
+ *   each template next to it (`query.sql.ts` for `query.sql`)
+ *
+ * `--syntax <profile>` reads markers in the `c` (default), `html`, `sql` or
+ * `mustache` profile. The exit code is 1 if a template is invalid or cannot
+ * be rendered, and 2 for a usage error or a file that cannot be read or
+ * written.
+ */
+
+import { templatePaths } from "./data.js";
+import {
+    ConditionalStringDataError,
+    ConditionalStringSyntaxError,
+} from "./errors.js";
+import { generateModule } from "./generate.js";
+import { parseTemplate } from "./parser.js";
+import { checkPredicates } from "./predicate.js";
+import { renderTemplate } from "./render.js";
+import type { SyntaxProfile } from "./syntax.js";
+
+/**
+ * Where the tool reads files and writes its output.
+ */
+export interface CliIo {
+    readFile(path: string): string;
+    writeFile(path: string, text: string): void;
+    stdout(text: string): void;
+    stderr(text: string): void;
+}
+
+const usage = `Usage: conditional-string <command> [options]
+
+Commands:
+  render <file>       Print the rendered template
+  check <files...>    Report syntax errors
+  conditions <file>   List the paths the template references
+  generate <files...> Write a typed module next to each template
+
+Options:
+  --data <file>       JSON data to render with (render)
+  --strict            Fail on missing values and non-boolean conditions (render)
+  --import <module>   Module generated code imports (generate)
+  --syntax <profile>  c (default), html, sql or mustache
+`;
+
+const syntaxProfiles: readonly SyntaxProfile[] = [
+    "c",
+    "html",
+    "sql",
+    "mustache",
+];
+
+/**
+ * Thrown for invalid arguments and files that cannot be read or written:
+ * exit code 2.
+ * `showUsage` adds the usage to the message.
+ */
+class UsageError extends Error {
+    constructor(message: string, readonly showUsage = false) {
+        super(message);
+    }
+}
+
+/**
+ * Parsed command-line arguments.
+ */
+interface CliArguments {
+    command: string | undefined;
+    files: string[];
+    data: string | undefined;
+    importFrom: string | undefined;
+    strict: boolean;
+    syntax: SyntaxProfile;
+}
+
+function parseArguments(args: readonly string[]): CliArguments {
+    const parsed: CliArguments = {
+        command: args[0],
+        files: [],
+        data: undefined,
+        importFrom: undefined,
+        strict: false,
+        syntax: "c",
+    };
+
+    for (let index = 1; index < args.length; index++) {
+        const arg = args[index];
+        const value = () => {
+            const next = args[++index];
+            if (next === undefined) {
+                throw new UsageError(`Missing value of ${arg}`, true);
+            }
+            return next;
+        };
+
+        if (arg === "--data") {
+            parsed.data = value();
+        }
+        else if (arg === "--import") {
+            parsed.importFrom = value();
+        }
+        else if (arg === "--strict") {
+            parsed.strict = true;
+        }
+        else if (arg === "--syntax") {
+            const syntax = value();
+            if (!syntaxProfiles.includes(syntax as SyntaxProfile)) {
+                throw new UsageError(`Unknown syntax profile "${syntax}"`);
+            }
+            parsed.syntax = syntax as SyntaxProfile;
+        }
+        else if (arg.startsWith("--")) {
+            throw new UsageError(`Unknown option ${arg}`, true);
+        }
+        else {
+            parsed.files.push(arg);
+        }
+    }
+
+    return parsed;
+}
+
+function readFile(io: CliIo, path: string): string {
+    try {
+        return io.readFile(path);
+    }
+    catch {
+        throw new UsageError(`Cannot read "${path}"`);
+    }
+}
+
+function readData(
+    io: CliIo,
+    path: string | undefined,
+): Record<string, unknown> {
+    if (path === undefined) {
+        return {};
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(readFile(io, path));
+    }
+    catch (error) {
+        throw error instanceof UsageError
+            ? error
+            : new UsageError(`Invalid JSON in "${path}"`);
+    }
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw new UsageError(`The data in "${path}" is not an object`);
+    }
+
+    return data as Record<string, unknown>;
+}
+
+/**
+ * Report an error of a template as `file:line:column: reason` with the
+ * line of the error, and rethrow other errors.
+ */
+function reportTemplateError(io: CliIo, file: string, error: unknown): void {
+    if (
+        !(error instanceof ConditionalStringSyntaxError)
+        && !(error instanceof ConditionalStringDataError)
+    ) {
+        throw error;
+    }
+
+    io.stderr(
+        `${file}:${error.line}:${error.column}: ${error.reason}\n`
+            + `${error.snippet}\n`,
+    );
+}
+
+/**
+ * Run a command on its file. Returns the exit code.
+ */
+function runFileCommand(
+    io: CliIo,
+    { command, files: [ file ], data, strict, syntax }: CliArguments,
+): number {
+    const template = readFile(io, file);
+
+    try {
+        const nodes = parseTemplate(template, syntax);
+        if (command === "render") {
+            checkPredicates(template, nodes, {});
+            io.stdout(
+                renderTemplate(template, nodes, readData(io, data), {
+                    strict,
+                }),
+            );
+        }
+        else {
+            io.stdout(
+                templatePaths(nodes).map((path) => `${path}\n`).join(""),
+            );
+        }
+        return 0;
+    }
+    catch (error) {
+        reportTemplateError(io, file, error);
+        return 1;
+    }
+}
+
+/**
+ * Check the syntax of template files. Returns the exit code.
+ */
+function checkFiles(io: CliIo, { files, syntax }: CliArguments): number {
+    let exitCode = 0;
+
+    for (const file of files) {
+        try {
+            parseTemplate(readFile(io, file), syntax);
+        }
+        catch (error) {
+            reportTemplateError(io, file, error);
+            exitCode = 1;
+        }
+    }
+
+    return exitCode;
+}
+
+/**
+ * Write the module of each template file. Returns the exit code.
+ */
+function generateFiles(
+    io: CliIo,
+    { files, importFrom, syntax }: CliArguments,
+): number {
+    let exitCode = 0;
+
+    for (const file of files) {
+        let code: string;
+        try {
+            code = generateModule(readFile(io, file), {
+                syntax,
+                importFrom,
+                source: file.replace(/^.*[\\/]/, ""),
+            });
+        }
+        catch (error) {
+            reportTemplateError(io, file, error);
+            exitCode = 1;
+            continue;
+        }
+        try {
+            io.writeFile(`${file}.ts`, code);
+        }
+        catch {
+            throw new UsageError(`Cannot write "${file}.ts"`);
+        }
+        io.stdout(`${file}.ts\n`);
+    }
+
+    return exitCode;
+}
+
+/**
+ * Run the tool with its arguments (without the program name). Returns the
+ * exit code.
+ * @example runCli(["check", "query.sql"], io) // 0
+ */
+export function runCli(args: readonly string[], io: CliIo): number {
+    try {
+        const parsed = parseArguments(args);
+        const { command, files } = parsed;
+
+        if (command === "--help" || command === "help") {
+            io.stdout(usage);
+            return 0;
+        }
+        if (command === "check" && files.length > 0) {
+            return checkFiles(io, parsed);
+        }
+        if (command === "generate" && files.length > 0) {
+            return generateFiles(io, parsed);
+        }
+        if (
+            (command === "render" || command === "conditions")
+            && files.length === 1
+        ) {
+            return runFileCommand(io, parsed);
+        }
+
+        throw new UsageError(
+            command === undefined
+                ? "Missing command"
+                : `Invalid command "${[ command, ...files ].join(" ")}"`,
+            true,
+        );
+    }
+    catch (error) {
+        if (!(error instanceof UsageError)) {
+            throw error;
+        }
+        io.stderr(
+            `conditional-string: ${error.message}\n`
+                + (error.showUsage ? `\n${usage}` : ""),
+        );
+        return 2;
+    }
+}
@@ -0,0 +1,1281 @@
+/**
+ * Condition expressions used in `/*if:...* /` and `/*elif:...* /` markers,
+ * and value expressions used in `/*=...* /` markers.
+ *
+ * Grammar (lowest to highest precedence):
+ * - `a || b`
+ * - `a && b`
+ * - `!a`
+ * - `a == b`, `a != b`, `a > b`, `a >= b`, `a < b`, `a <= b`, `a in [b, c]`
+ * - `(a)`, `nonEmpty(a)`, `user.isAdmin`, `"text"`, `'text'`, `10`, `-1.5`,
+ *   `true`, `false`, `null`
+ *
+ * `name(value)` calls a predicate (see `predicate.ts`) with a path or a
+ * literal.
+ *
+ * Value expressions are a path with an optional fallback literal:
+ * `user.name` or `user.name ?? "anonymous"`.
+ *
+ * A path ending with `?` (`user.nickname?`) is marked optional: the value
+ * may be missing from the data on purpose.
+ *
+ * Both the runtime evaluator and the type-level evaluator follow this grammar.
+ */
+
+import type { EvalPredicate, NoPredicates } from "./predicate.js";
+import type { IsPresetTruthy, TruthinessPreset } from "./truthiness.js";
+
+// ============================================================================
+// Syntax tree
+// ============================================================================
+
+/**
+ * A dot notation path to a value in the data object.
+ * `optional` is true if the path ends with `?`, which is not part of `path`.
+ */
+export interface PathNode<
+    Path extends string = string,
+    Optional extends boolean = boolean,
+> {
+    type: "path";
+    path: Path;
+    optional: Optional;
+}
+
+/**
+ * A literal value: string (without escape sequences), number, boolean or null.
+ */
+export interface LiteralNode<Value extends LiteralValue = LiteralValue> {
+    type: "literal";
+    value: Value;
+}
+
+/**
+ * A value a literal can have.
+ */
+export type LiteralValue = string | number | boolean | null;
+
+/**
+ * An operand of a comparison.
+ */
+export type ValueNode = PathNode | LiteralNode;
+
+/**
+ * Operators comparing two values.
+ * `==` and `!=` use strict equality; `>`, `>=`, `<` and `<=` are only true
+ * when both values are numbers.
+ */
+export type ComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+/**
+ * Comparison of two values: `left == right`.
+ */
+export interface ComparisonNode<
+    Operator extends ComparisonOperator = ComparisonOperator,
+    Left extends ValueNode = ValueNode,
+    Right extends ValueNode = ValueNode,
+> {
+    type: "comparison";
+    operator: Operator;
+    left: Left;
+    right: Right;
+}
+
+/**
+ * Membership test against a list of literals: `left in ["a", "b"]`.
+ */
+export interface InNode<
+    Left extends ValueNode = ValueNode,
+    Values extends LiteralNode[] = LiteralNode[],
+> {
+    type: "in";
+    left: Left;
+    values: Values;
+}
+
+/**
+ * Negation of an operand: `!operand`.
+ */
+export interface NotNode<Operand extends ConditionNode = ConditionNode> {
+    type: "not";
+    operand: Operand;
+}
+
+/**
+ * Conjunction: `left && right`.
+ */
+export interface AndNode<
+    Left extends ConditionNode = ConditionNode,
+    Right extends ConditionNode = ConditionNode,
+> {
+    type: "and";
+    left: Left;
+    right: Right;
+}
+
+/**
+ * Disjunction: `left || right`.
+ */
+export interface OrNode<
+    Left extends ConditionNode = ConditionNode,
+    Right extends ConditionNode = ConditionNode,
+> {
+    type: "or";
+    left: Left;
+    right: Right;
+}
+
+/**
+ * A predicate call: `name(argument)`.
+ */
+export interface CallNode<
+    Name extends string = string,
+    Argument extends ValueNode = ValueNode,
+> {
+    type: "call";
+    name: Name;
+    argument: Argument;
+}
+
+/**
+ * An interpolated value: `value` or `value ?? fallback`.
+ * The fallback is used if the value is `null` or `undefined`.
+ */
+export interface InterpolationNode<
+    Value extends PathNode = PathNode,
+    Fallback extends LiteralNode | null = LiteralNode | null,
+> {
+    type: "interpolation";
+    value: Value;
+    fallback: Fallback;
+}
+
+/**
+ * A parsed condition expression.
+ */
+export type ConditionNode =
+    | ValueNode
+    | ComparisonNode
+    | InNode
+    | CallNode
+    | NotNode
+    | AndNode
+    | OrNode;
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * Get a nested value type from an object type using dot notation path.
+ * @example GetPath<{ user: { isAdmin: true } }, "user.isAdmin"> // true
+ */
+export type GetPath<T, Path extends string> = Path extends
+    `${infer Key}.${infer Rest}` ? Key extends keyof T ? GetPath<T[Key], Rest>
+    : undefined
+    : Path extends keyof T ? T[Path]
+    : undefined;
+
+/**
+ * Check if a type is considered "truthy" at the type level, under a
+ * truthiness preset (JavaScript truthiness by default). Each member of a
+ * union is decided on its own.
+ * Returns:
+ * - `false` if every member is falsy (false, 0, "", null, undefined, never)
+ * - `true` if every member is truthy (true literal, non-empty string literal, etc.)
+ * - `boolean` if T could be either (`boolean`, `string`, `0 | 1`, etc.)
+ */
+export type IsTruthy<T, Truthiness extends TruthinessPreset = "js"> =
+    IsPresetTruthy<T, Truthiness>;
+
+export type Whitespace = " " | "\n" | "\r" | "\t";
+
+type Letter =
+    | "a"
+    | "b"
+    | "c"
+    | "d"
+    | "e"
+    | "f"
+    | "g"
+    | "h"
+    | "i"
+    | "j"
+    | "k"
+    | "l"
+    | "m"
+    | "n"
+    | "o"
+    | "p"
+    | "q"
+    | "r"
+    | "s"
+    | "t"
+    | "u"
+    | "v"
+    | "w"
+    | "x"
+    | "y"
+    | "z";
+
+type Digit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9";
+
+/**
+ * Characters allowed in a path (same as `[\w.]` in the runtime tokenizer).
+ */
+type PathChar = Letter | Uppercase<Letter> | Digit | "_" | ".";
+
+/**
+ * Tokens that are neither paths nor literals.
+ */
+type OperatorToken =
+    | "&&"
+    | "||"
+    | "!"
+    | "("
+    | ")"
+    | "["
+    | "]"
+    | ","
+    | "in"
+    | "??"
+    | ComparisonOperator;
+
+/**
+ * Two-character operators, matched before single-character ones.
+ */
+type LongOperatorToken = "&&" | "||" | "??" | "==" | "!=" | ">=" | "<=";
+
+/**
+ * Read consecutive path characters from the start of `S`.
+ * Returns `[path, rest]`.
+ */
+type ReadPath<S extends string, Path extends string = ""> = S extends
+    `${infer Char extends PathChar}${infer Rest}`
+    ? ReadPath<Rest, `${Path}${Char}`>
+    : [ Path, S ];
+
+/**
+ * Read consecutive digits and dots from the start of `S`.
+ * Returns `[number, rest]`.
+ */
+type ReadNumber<S extends string, Number extends string> = S extends
+    `${infer Char extends Digit | "."}${infer Rest}`
+    ? ReadNumber<Rest, `${Number}${Char}`>
+    : [ Number, S ];
+
+/**
+ * Convert a literal token to its value type. Returns `never` for other tokens.
+ */
+type LiteralTokenValue<Token extends string> = Token extends
+    `"${infer Value}"` ? Value
+    : Token extends `'${infer Value}'` ? Value
+    : Token extends "true" ? true
+    : Token extends "false" ? false
+    : Token extends "null" ? null
+    : Token extends `${Digit | "-"}${string}`
+        ? Token extends `${infer Value extends number}` ? Value : never
+    : never;
+
+/**
+ * Split a condition string into tokens. Returns `never` on an unknown character.
+ */
+export type TokenizeCondition<
+    S extends string,
+    Tokens extends string[] = [],
+> = S extends "" ? Tokens
+    : S extends `${Whitespace}${infer Rest}` ? TokenizeCondition<Rest, Tokens>
+    : S extends `${LongOperatorToken}${infer Rest}`
+        ? S extends `${infer Operator}${Rest}`
+            ? TokenizeCondition<Rest, [ ...Tokens, Operator ]>
+        : never
+    : S extends `${infer Char extends "!" | "(" | ")" | "[" | "]" | "," | ">" | "<"}${infer Rest}`
+        ? TokenizeCondition<Rest, [ ...Tokens, Char ]>
+    : S extends `${infer Quote extends "\"" | "'"}${infer Body}`
+        ? Body extends `${infer Value}${Quote}${infer Rest}`
+            ? TokenizeCondition<Rest, [ ...Tokens, `${Quote}${Value}${Quote}` ]>
+        : never
+    : S extends `${infer Start extends Digit | "-"}${infer Rest}`
+        ? ReadNumber<Rest, Start> extends [
+            infer Number extends string,
+            infer Remaining extends string,
+        ] ? TokenizeCondition<Remaining, [ ...Tokens, Number ]>
+        : never
+    : ReadPath<S> extends [
+        infer Path extends string,
+        infer Rest extends string,
+    ] ? Path extends "" ? never
+        // A single `?` marks the path optional, `??` is an operator
+        : Rest extends `??${string}`
+            ? TokenizeCondition<Rest, [ ...Tokens, Path ]>
+        : Rest extends `?${infer After}`
+            ? TokenizeCondition<After, [ ...Tokens, `${Path}?` ]>
+        : TokenizeCondition<Rest, [ ...Tokens, Path ]>
+    : never;
+
+/**
+ * Parse `a || b || ...`. Returns `[node, remainingTokens]` or `never`.
+ */
+type ParseOr<Tokens extends string[]> = ParseAnd<Tokens> extends [
+    infer Left extends ConditionNode,
+    infer Rest extends string[],
+] ? ParseOrTail<Left, Rest>
+    : never;
+
+type ParseOrTail<Left extends ConditionNode, Tokens extends string[]> =
+    Tokens extends [ "||", ...infer Rest extends string[] ]
+        ? ParseAnd<Rest> extends [
+            infer Right extends ConditionNode,
+            infer Remaining extends string[],
+        ] ? ParseOrTail<OrNode<Left, Right>, Remaining>
+        : never
+        : [ Left, Tokens ];
+
+/**
+ * Parse `a && b && ...`. Returns `[node, remainingTokens]` or `never`.
+ */
+type ParseAnd<Tokens extends string[]> = ParseUnary<Tokens> extends [
+    infer Left extends ConditionNode,
+    infer Rest extends string[],
+] ? ParseAndTail<Left, Rest>
+    : never;
+
+type ParseAndTail<Left extends ConditionNode, Tokens extends string[]> =
+    Tokens extends [ "&&", ...infer Rest extends string[] ]
+        ? ParseUnary<Rest> extends [
+            infer Right extends ConditionNode,
+            infer Remaining extends string[],
+        ] ? ParseAndTail<AndNode<Left, Right>, Remaining>
+        : never
+        : [ Left, Tokens ];
+
+/**
+ * Parse `!a` or a comparison. Returns `[node, remainingTokens]` or `never`.
+ */
+type ParseUnary<Tokens extends string[]> = Tokens extends
+    [ "!", ...infer Rest extends string[] ]
+    ? ParseUnary<Rest> extends [
+        infer Operand extends ConditionNode,
+        infer Remaining extends string[],
+    ] ? [ NotNode<Operand>, Remaining ]
+    : never
+    : ParseComparison<Tokens>;
+
+/**
+ * Parse `(a)`, a predicate call, a value, or a value followed by a
+ * comparison. Returns `[node, remainingTokens]` or `never`.
+ */
+type ParseComparison<Tokens extends string[]> = Tokens extends
+    [ "(", ...infer Rest extends string[] ]
+    ? ParseOr<Rest> extends [
+        infer Inner extends ConditionNode,
+        [ ")", ...infer Remaining extends string[] ],
+    ] ? [ Inner, Remaining ]
+    : never
+    : Tokens extends [
+        infer Name extends string,
+        "(",
+        ...infer Rest extends string[],
+    ] ? ParseCall<Name, Rest>
+    : ParseValue<Tokens> extends [
+        infer Left extends ValueNode,
+        infer Rest extends string[],
+    ] ? Rest extends [
+            infer Operator extends ComparisonOperator,
+            ...infer Remaining extends string[],
+        ] ? ParseValue<Remaining> extends [
+                infer Right extends ValueNode,
+                infer AfterRight extends string[],
+            ] ? [ ComparisonNode<Operator, Left, Right>, AfterRight ]
+            : never
+        : Rest extends [ "in", "[", ...infer Remaining extends string[] ]
+            ? ParseList<Remaining> extends [
+                infer Values extends LiteralNode[],
+                infer AfterList extends string[],
+            ] ? [ InNode<Left, Values>, AfterList ]
+            : never
+        : [ Left, Rest ]
+    : never;
+
+/**
+ * Parse the argument of `name(...)` after the opening parenthesis.
+ * Returns `[node, remainingTokens]` or `never`.
+ */
+type ParseCall<Name extends string, Tokens extends string[]> = ParseValue<
+    [ Name ]
+> extends [ PathNode<Name, false>, [] ]
+    ? Name extends `${string}.${string}` ? never
+    : ParseValue<Tokens> extends [
+        infer Argument extends ValueNode,
+        [ ")", ...infer Remaining extends string[] ],
+    ] ? [ CallNode<Name, Argument>, Remaining ]
+    : never
+    : never;
+
+/**
+ * Parse a path or a literal. Returns `[node, remainingTokens]` or `never`.
+ */
+type ParseValue<Tokens extends string[]> = Tokens extends [
+    infer Token extends string,
+    ...infer Rest extends string[],
+] ? Token extends OperatorToken ? never
+    : [ LiteralTokenValue<Token> ] extends [ never ]
+        ? Token extends `${Digit | "-" | "\"" | "'"}${string}` ? never
+        : Token extends `${infer Path}?` ? [ PathNode<Path, true>, Rest ]
+        : [ PathNode<Token, false>, Rest ]
+    : [ LiteralNode<LiteralTokenValue<Token>>, Rest ]
+    : never;
+
+/**
+ * Parse the literals of `[a, b, ...]` after the opening bracket.
+ * Returns `[literals, remainingTokens]` or `never`.
+ */
+type ParseList<
+    Tokens extends string[],
+    Values extends LiteralNode[] = [],
+> = Tokens extends [ "]", ...infer Rest extends string[] ]
+    ? Values extends [] ? [ Values, Rest ] : never
+    : ParseValue<Tokens> extends [
+        infer Value extends LiteralNode,
+        infer Rest extends string[],
+    ] ? Rest extends [ ",", ...infer Remaining extends string[] ]
+            ? ParseList<Remaining, [ ...Values, Value ]>
+        : Rest extends [ "]", ...infer Remaining extends string[] ]
+            ? [ [ ...Values, Value ], Remaining ]
+        : never
+    : never;
+
+/**
+ * Parse a condition string into a `ConditionNode` type.
+ * Returns `never` if the condition is not valid.
+ * @example ParseCondition<"!a && b"> // AndNode<NotNode<PathNode<"a">>, PathNode<"b">>
+ */
+export type ParseCondition<Cond extends string> = ParseOr<
+    TokenizeCondition<Cond>
+> extends [ infer Node extends ConditionNode, [] ] ? Node
+    : never;
+
+/**
+ * Parse a value expression into an `InterpolationNode` type.
+ * Returns `never` if the expression is not valid.
+ * @example ParseInterpolation<"col ?? \"id\""> // InterpolationNode<PathNode<"col">, LiteralNode<"id">>
+ */
+export type ParseInterpolation<Expr extends string> = TokenizeCondition<
+    Expr
+> extends infer Tokens extends string[]
+    ? ParseValue<Tokens> extends [
+        infer Value extends PathNode,
+        infer Rest extends string[],
+    ] ? Rest extends [] ? InterpolationNode<Value, null>
+        : Rest extends [ "??", ...infer Remaining extends string[] ]
+            ? ParseValue<Remaining> extends [
+                infer Fallback extends LiteralNode,
+                [],
+            ] ? InterpolationNode<Value, Fallback>
+            : never
+        : never
+    : never
+    : never;
+
+/**
+ * Compute the text a value expression is replaced with.
+ * Literal values give literal text; widened values give `${string}`-like
+ * text (e.g. `${number}`); unions give a union of texts.
+ * Returns `string` for an invalid expression.
+ */
+export type EvalInterpolation<Expr extends string, Data> = [
+    ParseInterpolation<Expr>,
+] extends [ never ] ? string
+    : ParseInterpolation<Expr> extends InterpolationNode<
+        PathNode<infer Path>,
+        infer Fallback
+    > ? InterpolatedText<
+            GetPath<Data, Path>,
+            Fallback extends LiteralNode<infer Value> ? InterpolatedText<Value, "">
+                : ""
+        >
+    : string;
+
+/**
+ * Convert a value type to text, using `Fallback` for null and undefined.
+ */
+type InterpolatedText<Value, Fallback extends string> = [ Value ] extends
+    [ never ] ? Fallback
+    : Value extends null | undefined ? Fallback
+    : Value extends string | number | boolean | bigint ? `${Value}`
+    : string;
+
+/**
+ * Three-valued logical NOT (`boolean` means indeterminate).
+ */
+type Not<Value> = [ Value ] extends [ true ] ? false
+    : [ Value ] extends [ false ] ? true
+    : boolean;
+
+/**
+ * Three-valued logical AND: `false` wins over indeterminate.
+ */
+type And<Left, Right> = [ Left ] extends
+    [ false ] ? false
+    : [ Right ] extends [ false ] ? false
+    : [ Left ] extends [ true ] ? [ Right ] extends [ true ] ? true : boolean
+    : boolean;
+
+/**
+ * Three-valued logical OR: `true` wins over indeterminate.
+ */
+type Or<Left, Right> = [ Left ] extends
+    [ true ] ? true
+    : [ Right ] extends [ true ] ? true
+    : [ Left ] extends [ false ] ? [ Right ] extends [ false ] ? false : boolean
+    : boolean;
+
+/**
+ * Get the type of a value node: the type at a path, or the literal type.
+ */
+type ValueType<Node, Data> = Node extends PathNode<infer Path>
+    ? GetPath<Data, Path>
+    : Node extends LiteralNode<infer Value> ? Value
+    : never;
+
+type Primitive = string | number | boolean | null | undefined;
+
+/**
+ * Check if a single (non-union) type is a widened `string` or `number`.
+ */
+type IsWidened<T> = string extends T ? true : number extends T ? true : false;
+
+/**
+ * Strict equality of two types, distributed over union members.
+ * Returns true, false, or boolean (indeterminate).
+ */
+type IsEqual<Left, Right> = [ Left ] extends [ never ] ? false
+    : [ Right ] extends [ never ] ? false
+    : Left extends unknown
+        ? Right extends unknown ? IsEqualMember<Left, Right> : never
+    : never;
+
+type IsEqualMember<Left, Right> = [ Left ] extends [ Primitive ]
+    ? [ Right ] extends [ Primitive ]
+        ? IsWidened<Left> extends true
+            ? [ Right ] extends [ Left ] ? boolean : false
+        : IsWidened<Right> extends true
+            ? [ Left ] extends [ Right ] ? boolean : false
+        : [ Left ] extends [ Right ] ? [ Right ] extends [ Left ] ? true
+            : false
+        : false
+    : boolean
+    : boolean;
+
+/**
+ * Check if a value type is equal to any of the literal nodes.
+ */
+type IsIn<Left, Values> = [ Left ] extends [ never ] ? false
+    : Left extends unknown ? IsInList<Left, Values> : never;
+
+type IsInList<Left, Values> = Values extends
+    [ LiteralNode<infer Value>, ...infer Rest ]
+    ? Or<IsEqual<Left, Value>, IsInList<Left, Rest>>
+    : false;
+
+/**
+ * Outcomes of a numeric comparison that satisfy each relational operator.
+ */
+interface RelationalOutcomes {
+    ">": "greater";
+    ">=": "greater" | "equal";
+    "<": "less";
+    "<=": "less" | "equal";
+}
+
+/**
+ * Relational comparison of two types, distributed over union members.
+ * Only numbers can be compared; any other primitive makes it false.
+ */
+type CompareRelational<
+    Operator extends keyof RelationalOutcomes,
+    Left,
+    Right,
+> = [ Left ] extends [ never ] ? false
+    : [ Right ] extends [ never ] ? false
+    : Left extends unknown ? Right extends unknown
+            ? [ Left ] extends [ number ] ? [ Right ] extends [ number ]
+                    ? IsWidened<Left> extends true ? boolean
+                    : IsWidened<Right> extends true ? boolean
+                    : CompareNumbers<Left, Right> extends
+                        RelationalOutcomes[Operator] ? true
+                    : false
+                : [ Right ] extends [ Primitive ] ? false
+                : boolean
+            : [ Left ] extends [ Primitive ] ? false
+            : boolean
+        : never
+    : never;
+
+type NumberOutcome = "less" | "equal" | "greater";
+
+type InvertOutcome<Outcome extends NumberOutcome> = Outcome extends "less"
+    ? "greater"
+    : Outcome extends "greater" ? "less"
+    : "equal";
+
+/**
+ * Compare two number literal types.
+ * Numbers in exponent notation can't be compared and give `NumberOutcome`.
+ */
+type CompareNumbers<Left extends number, Right extends number> =
+    `${Left}${Right}` extends `${string}e${string}` ? NumberOutcome
+        : `${Left}` extends `-${infer AbsLeft}`
+            ? `${Right}` extends `-${infer AbsRight}`
+                ? InvertOutcome<CompareUnsigned<AbsLeft, AbsRight>>
+            : "less"
+        : `${Right}` extends `-${string}` ? "greater"
+        : CompareUnsigned<`${Left}`, `${Right}`>;
+
+/**
+ * Compare two non-negative decimal number strings.
+ */
+type CompareUnsigned<Left extends string, Right extends string> =
+    SplitDecimal<Left> extends [
+        infer LeftInteger extends string,
+        infer LeftFraction extends string,
+    ] ? SplitDecimal<Right> extends [
+            infer RightInteger extends string,
+            infer RightFraction extends string,
+        ] ? CompareLength<LeftInteger, RightInteger> extends "equal"
+                ? CompareDigits<LeftInteger, RightInteger> extends "equal"
+                    ? CompareDigits<LeftFraction, RightFraction>
+                : CompareDigits<LeftInteger, RightInteger>
+            : CompareLength<LeftInteger, RightInteger>
+        : never
+        : never;
+
+type SplitDecimal<S extends string> = S extends
+    `${infer Integer}.${infer Fraction}` ? [ Integer, Fraction ]
+    : [ S, "" ];
+
+type CompareLength<Left extends string, Right extends string> = Left extends
+    `${string}${infer LeftRest}`
+    ? Right extends `${string}${infer RightRest}`
+        ? CompareLength<LeftRest, RightRest>
+    : "greater"
+    : Right extends "" ? "equal"
+    : "less";
+
+/**
+ * Compare digit strings from the left; a missing digit counts as `0`.
+ */
+type CompareDigits<Left extends string, Right extends string> = Left extends
+    "" ? Right extends "" ? "equal" : CompareDigits<"0", Right>
+    : Right extends "" ? CompareDigits<Left, "0">
+    : Left extends `${infer LeftDigit}${infer LeftRest}`
+        ? Right extends `${infer RightDigit}${infer RightRest}`
+            ? LeftDigit extends RightDigit ? CompareDigits<LeftRest, RightRest>
+            : "0123456789" extends
+                `${string}${LeftDigit}${string}${RightDigit}${string}` ? "less"
+            : "greater"
+        : never
+    : never;
+
+/**
+ * Evaluate a parsed condition against a data type.
+ * Returns true, false, or boolean (indeterminate).
+ */
+export type EvalConditionNode<
+    Node,
+    Data,
+    Predicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> =
+    // A non-literal node (e.g. `ConditionNode` itself) can't be evaluated
+    [ ConditionNode ] extends [ Node ] ? boolean
+        : Node extends ValueNode ? IsTruthy<ValueType<Node, Data>, Truthiness>
+        : Node extends CallNode<infer Name, infer Argument>
+            ? EvalPredicate<Name, ValueType<Argument, Data>, Predicates>
+        : Node extends ComparisonNode<
+            infer Operator,
+            infer Left,
+            infer Right
+        > ? Operator extends "==" ? IsEqual<
+                    ValueType<Left, Data>,
+                    ValueType<Right, Data>
+                >
+            : Operator extends "!=" ? Not<
+                    IsEqual<ValueType<Left, Data>, ValueType<Right, Data>>
+                >
+            : Operator extends keyof RelationalOutcomes ? CompareRelational<
+                    Operator,
+                    ValueType<Left, Data>,
+                    ValueType<Right, Data>
+                >
+            : boolean
+        : Node extends InNode<infer Left, infer Values>
+            ? IsIn<ValueType<Left, Data>, Values>
+        : Node extends NotNode<infer Operand>
+            ? Not<EvalConditionNode<Operand, Data, Predicates, Truthiness>>
+        : Node extends AndNode<infer Left, infer Right> ? And<
+                EvalConditionNode<Left, Data, Predicates, Truthiness>,
+                EvalConditionNode<Right, Data, Predicates, Truthiness>
+            >
+        : Node extends OrNode<infer Left, infer Right> ? Or<
+                EvalConditionNode<Left, Data, Predicates, Truthiness>,
+                EvalConditionNode<Right, Data, Predicates, Truthiness>
+            >
+        : boolean;
+
+/**
+ * Evaluate a condition string against a data type, with the `Predicates`
+ * registered for calls and a truthiness preset. Returns true, false, or boolean (indeterminate, also
+ * for invalid conditions).
+ */
+export type EvalCondition<
+    Cond extends string,
+    Data,
+    Predicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> = [ ParseCondition<Cond> ] extends [ never ] ? boolean
+    : EvalConditionNode<ParseCondition<Cond>, Data, Predicates, Truthiness>;
+
+/**
+ * A string literal in double quotes, or in single quotes if it contains a
+ * double quote.
+ */
+type PrintLiteral<Value> = Value extends string
+    ? Value extends `${string}"${string}` ? `'${Value}'` : `"${Value}"`
+    : Value extends number | boolean | null ? `${Value}`
+    : never;
+
+type PrintList<Values, Result extends string = ""> = Values extends
+    [ LiteralNode<infer Value>, ...infer Rest ] ? PrintList<
+        Rest,
+        Result extends "" ? PrintLiteral<Value>
+            : `${Result}, ${PrintLiteral<Value>}`
+    >
+    : Result;
+
+/**
+ * Print a node in parentheses if it is one of the `Grouped` nodes.
+ */
+type PrintGroup<Node, Grouped> = [ Node ] extends [ Grouped ]
+    ? `(${PrintCondition<Node>})`
+    : PrintCondition<Node>;
+
+/**
+ * Print a parsed condition as an expression, with parentheses only where
+ * the grammar needs them. Matches the runtime `printCondition`.
+ * @example PrintCondition<ParseCondition<"(a || b) && !c">> // "(a || b) && !c"
+ */
+export type PrintCondition<Node> =
+    // A non-literal node (e.g. `ConditionNode` itself) prints as any text
+    [ ConditionNode ] extends [ Node ] ? string
+        : Node extends PathNode<infer Path, infer Optional>
+            ? Optional extends true ? `${Path}?` : Path
+        : Node extends LiteralNode<infer Value> ? PrintLiteral<Value>
+        : Node extends ComparisonNode<infer Operator, infer Left, infer Right>
+            ? `${PrintCondition<Left>} ${Operator} ${PrintCondition<Right>}`
+        : Node extends InNode<infer Left, infer Values>
+            ? `${PrintCondition<Left>} in [${PrintList<Values>}]`
+        : Node extends CallNode<infer Name, infer Argument>
+            ? `${Name}(${PrintCondition<Argument>})`
+        : Node extends NotNode<infer Operand> ? `!${PrintGroup<
+                Operand,
+                ComparisonNode | InNode | AndNode | OrNode
+            >}`
+        : Node extends AndNode<infer Left, infer Right> ? `${PrintGroup<
+                Left,
+                OrNode
+            >} && ${PrintGroup<Right, AndNode | OrNode>}`
+        : Node extends OrNode<infer Left, infer Right>
+            ? `${PrintCondition<Left>} || ${PrintGroup<Right, OrNode>}`
+        : never;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * Matches one token of a condition: an operator, a string or number literal,
+ * or a path with an optional `?` (keywords are paths until the parser looks
+ * at them).
+ */
+const tokenPattern =
+    /\s*(&&|\|\||\?\?|[=!<>]=|[!()[\],<>]|"[^"]*"|'[^']*'|-?[\d.]+|[\w.]+(?:\?(?!\?))?)/y;
+
+const operatorTokens = new Set([
+    "&&",
+    "||",
+    "!",
+    "(",
+    ")",
+    "[",
+    "]",
+    ",",
+    "in",
+    "??",
+    "==",
+    "!=",
+    ">",
+    ">=",
+    "<",
+    "<=",
+]);
+
+const comparisonOperators = new Set<string>([
+    "==",
+    "!=",
+    ">",
+    ">=",
+    "<",
+    "<=",
+]);
+
+/**
+ * Parser state: the tokens of a condition and the current position.
+ */
+interface ConditionParser {
+    source: string;
+    tokens: string[];
+    position: number;
+}
+
+/**
+ * Parse a condition string into a `ConditionNode`.
+ * Throws if the condition is not a valid expression.
+ * @example parseCondition("!a && b") // { type: "and", left: { type: "not", ... }, ... }
+ */
+export function parseCondition(source: string): ConditionNode {
+    const parser: ConditionParser = {
+        source,
+        tokens: tokenizeCondition(source),
+        position: 0,
+    };
+    const node = parseOr(parser);
+
+    if (parser.position < parser.tokens.length) {
+        throw invalidCondition(parser);
+    }
+
+    return node;
+}
+
+/**
+ * Parse a value expression into an `InterpolationNode`.
+ * Throws if the expression is not valid.
+ * @example parseInterpolation("col ?? 'id'") // { type: "interpolation", value: { type: "path", path: "col" }, ... }
+ */
+export function parseInterpolation(source: string): InterpolationNode {
+    const parser: ConditionParser = {
+        source,
+        tokens: tokenizeCondition(source),
+        position: 0,
+    };
+    const value = parseValue(parser);
+
+    if (value.type !== "path") {
+        parser.position--;
+        throw invalidCondition(parser);
+    }
+
+    let fallback: LiteralNode | null = null;
+    if (parser.tokens[parser.position] === "??") {
+        parser.position++;
+        fallback = parseLiteral(parser);
+    }
+
+    if (parser.position < parser.tokens.length) {
+        throw invalidCondition(parser);
+    }
+
+    return { type: "interpolation", value, fallback };
+}
+
+/**
+ * How expressions read the data: the template renderer resolves the aliases
+ * of enclosing each blocks and applies its checks here.
+ */
+export interface EvaluationContext {
+    /**
+     * Get the value of a path.
+     */
+    lookup(node: PathNode): unknown;
+
+    /**
+     * Decide if the value of an operand used as a condition holds.
+     */
+    test(value: unknown, node: ValueNode): boolean;
+
+    /**
+     * Call a predicate with the value of its argument.
+     */
+    call(name: string, value: unknown): boolean;
+}
+
+/**
+ * Evaluate a parsed value expression and convert the result to text.
+ * `null` and `undefined` become the fallback, or an empty string without one.
+ */
+export function evaluateInterpolation(
+    node: InterpolationNode,
+    context: EvaluationContext,
+): string {
+    const value = context.lookup(node.value) ?? node.fallback?.value;
+
+    return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Evaluate a parsed condition.
+ */
+export function evaluateConditionNode(
+    node: ConditionNode,
+    context: EvaluationContext,
+): boolean {
+    switch (node.type) {
+        case "path":
+        case "literal":
+            return context.test(evaluateValue(node, context), node);
+        case "comparison":
+            return compareValues(
+                node.operator,
+                evaluateValue(node.left, context),
+                evaluateValue(node.right, context),
+            );
+        case "in": {
+            const value = evaluateValue(node.left, context);
+            return node.values.some((literal) => literal.value === value);
+        }
+        case "call":
+            return context.call(
+                node.name,
+                evaluateValue(node.argument, context),
+            );
+        case "not":
+            return !evaluateConditionNode(node.operand, context);
+        case "and":
+            return evaluateConditionNode(node.left, context)
+                && evaluateConditionNode(node.right, context);
+        case "or":
+            return evaluateConditionNode(node.left, context)
+                || evaluateConditionNode(node.right, context);
+    }
+}
+
+/**
+ * Print a parsed condition as an expression that parses back to the same
+ * tree, with parentheses only where the grammar needs them.
+ * @example printCondition(parseCondition("(a || b) && !c")) // "(a || b) && !c"
+ */
+export function printCondition(node: ConditionNode): string {
+    switch (node.type) {
+        case "path":
+            return node.optional ? `${node.path}?` : node.path;
+        case "literal":
+            return printLiteral(node.value);
+        case "comparison":
+            return `${printCondition(node.left)} ${node.operator} `
+                + printCondition(node.right);
+        case "in":
+            return `${printCondition(node.left)} in [${
+                node.values.map(({ value }) => printLiteral(value)).join(", ")
+            }]`;
+        case "call":
+            return `${node.name}(${printCondition(node.argument)})`;
+        case "not":
+            return `!${
+                printGroup(node.operand, [ "comparison", "in", "and", "or" ])
+            }`;
+        case "and":
+            return `${printGroup(node.left, [ "or" ])} && `
+                + printGroup(node.right, [ "and", "or" ]);
+        case "or":
+            return `${printCondition(node.left)} || `
+                + printGroup(node.right, [ "or" ]);
+    }
+}
+
+/**
+ * Print a node in parentheses if it is one of the grouped node types.
+ */
+function printGroup(
+    node: ConditionNode,
+    grouped: ConditionNode["type"][],
+): string {
+    return grouped.includes(node.type)
+        ? `(${printCondition(node)})`
+        : printCondition(node);
+}
+
+/**
+ * A string literal in double quotes, or in single quotes if it contains a
+ * double quote.
+ */
+function printLiteral(value: LiteralValue): string {
+    if (typeof value !== "string") {
+        return String(value);
+    }
+    return value.includes("\"") ? `'${value}'` : `"${value}"`;
+}
+
+/**
+ * Get the value of a path or a literal.
+ */
+function evaluateValue(
+    node: ValueNode,
+    context: EvaluationContext,
+): unknown {
+    return node.type === "path" ? context.lookup(node) : node.value;
+}
+
+function compareValues(
+    operator: ComparisonOperator,
+    left: unknown,
+    right: unknown,
+): boolean {
+    switch (operator) {
+        case "==":
+            return left === right;
+        case "!=":
+            return left !== right;
+    }
+
+    if (typeof left !== "number" || typeof right !== "number") {
+        return false;
+    }
+
+    switch (operator) {
+        case ">":
+            return left > right;
+        case ">=":
+            return left >= right;
+        case "<":
+            return left < right;
+        case "<=":
+            return left <= right;
+    }
+}
+
+/**
+ * Get a nested value from an object using dot notation.
+ * @example getNestedValue({ user: { isAdmin: true } }, "user.isAdmin") // true
+ */
+export function getNestedValue(
+    obj: Record<string, unknown>,
+    path: string,
+): unknown {
+    const keys = path.split(".");
+    let current: unknown = obj;
+
+    for (const key of keys) {
+        if (current === null || current === undefined) {
+            return undefined;
+        }
+        if (typeof current !== "object") {
+            return undefined;
+        }
+        current = (current as Record<string, unknown>)[key];
+    }
+
+    return current;
+}
+
+/**
+ * Check if every key of a path exists, even if the value is `undefined`.
+ */
+export function hasNestedValue(
+    obj: Record<string, unknown>,
+    path: string,
+): boolean {
+    let current: unknown = obj;
+
+    for (const key of path.split(".")) {
+        if (
+            current === null
+            || typeof current !== "object"
+            || !(key in current)
+        ) {
+            return false;
+        }
+        current = (current as Record<string, unknown>)[key];
+    }
+
+    return true;
+}
+
+function tokenizeCondition(source: string): string[] {
+    const tokens: string[] = [];
+    const end = source.trimEnd().length;
+    let position = 0;
+
+    while (position < end) {
+        tokenPattern.lastIndex = position;
+        const match = tokenPattern.exec(source);
+        if (match === null) {
+            throw new Error(`Invalid condition "${source}"`);
+        }
+        tokens.push(match[1]);
+        position = tokenPattern.lastIndex;
+    }
+
+    return tokens;
+}
+
+function parseOr(parser: ConditionParser): ConditionNode {
+    let node = parseAnd(parser);
+
+    while (parser.tokens[parser.position] === "||") {
+        parser.position++;
+        node = { type: "or", left: node, right: parseAnd(parser) };
+    }
+
+    return node;
+}
+
+function parseAnd(parser: ConditionParser): ConditionNode {
+    let node = parseUnary(parser);
+
+    while (parser.tokens[parser.position] === "&&") {
+        parser.position++;
+        node = { type: "and", left: node, right: parseUnary(parser) };
+    }
+
+    return node;
+}
+
+function parseUnary(parser: ConditionParser): ConditionNode {
+    if (parser.tokens[parser.position] === "!") {
+        parser.position++;
+        return { type: "not", operand: parseUnary(parser) };
+    }
+
+    return parseComparison(parser);
+}
+
+function parseComparison(parser: ConditionParser): ConditionNode {
+    if (parser.tokens[parser.position] === "(") {
+        parser.position++;
+        const node = parseOr(parser);
+        expectToken(parser, ")");
+        return node;
+    }
+
+    if (parser.tokens[parser.position + 1] === "(") {
+        return parseCall(parser);
+    }
+
+    const left = parseValue(parser);
+    const operator = parser.tokens[parser.position];
+
+    if (comparisonOperators.has(operator)) {
+        parser.position++;
+        return {
+            type: "comparison",
+            operator: operator as ComparisonOperator,
+            left,
+            right: parseValue(parser),
+        };
+    }
+
+    if (operator === "in") {
+        parser.position++;
+        return { type: "in", left, values: parseList(parser) };
+    }
+
+    return left;
+}
+
+function parseCall(parser: ConditionParser): CallNode {
+    const name = parser.tokens[parser.position];
+
+    if (
+        !/^[A-Za-z_]\w*$/.test(name)
+        || operatorTokens.has(name)
+        || [ "true", "false", "null" ].includes(name)
+    ) {
+        throw invalidCondition(parser);
+    }
+
+    parser.position += 2;
+    const argument = parseValue(parser);
+    expectToken(parser, ")");
+
+    return { type: "call", name, argument };
+}
+
+function parseValue(parser: ConditionParser): ValueNode {
+    const token = parser.tokens[parser.position];
+
+    if (token === undefined || operatorTokens.has(token)) {
+        throw invalidCondition(parser);
+    }
+
+    parser.position++;
+
+    if (token === "true" || token === "false") {
+        return { type: "literal", value: token === "true" };
+    }
+    if (token === "null") {
+        return { type: "literal", value: null };
+    }
+    if (/^["']/.test(token)) {
+        return { type: "literal", value: token.slice(1, -1) };
+    }
+    if (/^[\d-]/.test(token)) {
+        if (!/^-?\d+(?:\.\d+)?$/.test(token)) {
+            parser.position--;
+            throw invalidCondition(parser);
+        }
+        return { type: "literal", value: Number(token) };
+    }
+
+    const optional = token.endsWith("?");
+    return {
+        type: "path",
+        path: optional ? token.slice(0, -1) : token,
+        optional,
+    };
+}
+
+function parseList(parser: ConditionParser): LiteralNode[] {
+    const values: LiteralNode[] = [];
+
+    expectToken(parser, "[");
+
+    if (parser.tokens[parser.position] !== "]") {
+        values.push(parseLiteral(parser));
+        while (parser.tokens[parser.position] === ",") {
+            parser.position++;
+            values.push(parseLiteral(parser));
+        }
+    }
+
+    expectToken(parser, "]");
+
+    return values;
+}
+
+function parseLiteral(parser: ConditionParser): LiteralNode {
+    const value = parseValue(parser);
+
+    if (value.type !== "literal") {
+        parser.position--;
+        throw invalidCondition(parser);
+    }
+
+    return value;
+}
+
+function expectToken(parser: ConditionParser, token: string): void {
+    if (parser.tokens[parser.position] !== token) {
+        throw invalidCondition(parser);
+    }
+    parser.position++;
+}
+
+function invalidCondition(parser: ConditionParser): Error {
+    const token = parser.tokens[parser.position];
+    return new Error(
+        token === undefined
+            ? `Invalid condition "${parser.source}": unexpected end`
+            : `Invalid condition "${parser.source}": unexpected "${token}"`,
+    );
+}
@@ -7,7 +7,26 @@
  * - Boolean flags: `/*if:includeDeleted* /.../*endif* /`
  * - Negation: `/*if:!includeDeleted* /.../*endif* /`
  * - Dot notation: `/*if:user.isAdmin* /.../*endif* /`
+ * - Boolean expressions: `/*if:(a || b) && !c* /.../*endif* /`
+ * - Comparisons: `/*if:role == "admin"* /.../*endif* /`, `/*if:kind in ["a", "b"]* /...`
  * - Nested conditions: `/*if:a* / /*if:b* /.../*endif* / /*endif* /`
+ * - Branches: `/*if:a* /.../*elif:b* /.../*else* /.../*endif* /`
+ * - Interpolation: `/*=column* /`, `/*=column ?? "id"* /`
+ * - SQL parameters (with `conditionalString.sql`): `/*:searchTerm* /`
+ * - Repetition: `/*each:items as item sep=", "* /.../*empty* /.../*endeach* /`
+ * - SQL clauses: `/*where* /.../*endwhere* /`, `/*list:, * /.../*endlist* /`
+ * - Partials (with `conditionalString.withPartials`): `/*include:name* /`
+ * - Predicates: `/*if:nonEmpty(ids)* /`, more with
+ *   `conditionalString.withPredicates`
+ *
+ * Templates rendered many times can be parsed once with
+ * `conditionalString.compile(template)`, and the conditions known early can
+ * be resolved ahead with `conditionalString.partial(template, data)`.
+ * `conditionalString.explain(template, data)` shows how each block was
+ * decided.
+ * `createConditionalString` creates a version for templates written in
+ * another syntax profile, such as `<!--if:condition-->` in HTML, or with
+ * another truthiness preset.
  *
  * @example
  * ```ts
@@ -18,124 +37,475 @@
  * ```
  */
 
+import { type AppendClause } from "./clause.js";
+import {
+    type EvalCondition,
+    type EvalInterpolation,
+    type InterpolationNode,
+    type ParseInterpolation,
+    type PathNode,
+} from "./condition.js";
+import { type TemplateData } from "./data.js";
+import { type ExpandEachBlocks, type SeparatorMarker } from "./each.js";
+import { type TemplateExplanation } from "./explain.js";
+import {
+    type NormalizeTemplate,
+    parseTemplate,
+    type TemplateNode,
+    type ValidateTemplate,
+} from "./parser.js";
+import {
+    type ExpandIncludes,
+    type NoPartials,
+    type TemplatePartials,
+} from "./include.js";
+import { type PartialResult, partialTemplate } from "./partial.js";
+import {
+    type CheckPredicates,
+    checkPredicates,
+    type ConditionPredicates,
+    type NoPredicates,
+} from "./predicate.js";
+import { type CommentText } from "./raw.js";
+import {
+    explainTemplate,
+    type RenderOptions,
+    renderTemplate,
+} from "./render.js";
+import {
+    type BindParameter,
+    createParameterBinder,
+    type PlaceholderStyle,
+    type SqlOptions,
+    type SqlQuery,
+} from "./sql.js";
+import { type SyntaxProfile } from "./syntax.js";
+import { type TruthinessPreset } from "./truthiness.js";
+
 // ============================================================================
 // Type-level utilities
 // ============================================================================
 
 /**
- * Get a nested value type from an object type using dot notation path.
- * @example GetPath<{ user: { isAdmin: true } }, "user.isAdmin"> // true
+ * Number of indeterminate conditions expanded into a union of results by
+ * default. With more, the result type is `string`.
  */
-type GetPath<T, Path extends string> = Path extends `${infer Key}.${infer Rest}`
-    ? Key extends keyof T ? GetPath<T[Key], Rest>
-    : undefined
-    : Path extends keyof T ? T[Path]
-    : undefined;
+export type DefaultMaxIndeterminate = 4;
 
 /**
- * Check if a type is considered "truthy" at the type level.
- * Returns:
- * - `false` if T is strictly falsy (false, 0, "", null, undefined, never)
- * - `true` if T is strictly truthy (true literal, non-empty string literal, etc.)
- * - `boolean` if T could be either (widened boolean, string, number, etc.)
+ * Count the conditions introduced by `Marker` (`/*if:` or `/*elif:`) that
+ * are indeterminate (widened boolean/string/number), as a tuple length.
  */
-type IsTruthy<T> =
-    // Strictly falsy types
-    [ T ] extends [ false | 0 | "" | null | undefined ] ? false
-        : [ T ] extends [ never ] ? false
-        // Check if T is exactly `boolean` (not `true` or `false` literal)
-        : [ T ] extends [ boolean ]
-            ? ([ boolean ] extends [ T ] ? boolean : true)
-        // Check if T is exactly `string` (not a string literal)
-        : [ T ] extends [ string ] ? ([ string ] extends [ T ] ? boolean : true)
-        // Check if T is exactly `number` (not a number literal)
-        : [ T ] extends [ number ] ? ([ number ] extends [ T ] ? boolean : true)
-        // Otherwise truthy (objects, arrays, literal true, specific strings/numbers, etc.)
-        : true;
+type CountIndeterminate<
+    Template extends string,
+    Data extends Record<string, unknown>,
+    Predicates extends ConditionPredicates,
+    Truthiness extends TruthinessPreset,
+    Marker extends string,
+    Count extends unknown[] = [],
+> = Template extends `${string}${Marker}${infer Cond}*/${infer Rest}`
+    ? CountIndeterminate<
+        Rest,
+        Data,
+        Predicates,
+        Truthiness,
+        Marker,
+        boolean extends EvalCondition<Cond, Data, Predicates, Truthiness>
+            ? [ ...Count, unknown ]
+            : Count
+    >
+    : Count;
 
 /**
- * Evaluate a condition string against a data type.
- * Supports negation with `!` prefix.
- * Returns true, false, or boolean (indeterminate).
+ * Check if a template has more indeterminate conditions than `Max`.
  */
-type EvalCondition<Cond extends string, Data> = Cond extends `!${infer Key}`
-    ? IsTruthy<GetPath<Data, Key>> extends true ? false
-    : IsTruthy<GetPath<Data, Key>> extends false ? true
-    : boolean // indeterminate - negate of boolean is still boolean
-    : IsTruthy<GetPath<Data, Cond>>;
+type ExceedsIndeterminate<
+    Template extends string,
+    Data extends Record<string, unknown>,
+    Predicates extends ConditionPredicates,
+    Truthiness extends TruthinessPreset,
+    Max extends number,
+    Count extends unknown[] = [
+        ...CountIndeterminate<
+            Template,
+            Data,
+            Predicates,
+            Truthiness,
+            "/*if:"
+        >,
+        ...CountIndeterminate<
+            Template,
+            Data,
+            Predicates,
+            Truthiness,
+            "/*elif:"
+        >,
+    ],
+    Seen extends unknown[] = [],
+> = Seen["length"] extends Count["length"] ? false
+    : Seen["length"] extends Max ? true
+    : ExceedsIndeterminate<
+        Template,
+        Data,
+        Predicates,
+        Truthiness,
+        Max,
+        Count,
+        [ ...Seen, unknown ]
+    >;
 
 /**
- * Check if a string contains a specific pattern.
+ * State of an open conditional block while walking a template:
+ * - `emit`: in the branch that is rendered
+ * - `seek`: no branch rendered yet, looking for one whose condition holds
+ * - `done`: a branch was rendered, skipping to `/*endif* /`
+ * - `skip`: the whole block is in a branch that is not rendered
  */
-type Contains<S extends string, Pattern extends string> = S extends
-    `${string}${Pattern}${string}` ? true : false;
+type BlockState = "emit" | "seek" | "done" | "skip";
+
+/**
+ * An open SQL clause block while its text is rendered: its opening marker,
+ * and the text and kept text before it. The block's own text starts empty.
+ */
+type ClauseFrame = [ clause: string, before: string, kept: string ];
+
+type Frame = BlockState | ClauseFrame;
+
+/**
+ * One possible outcome of the template walked so far: the open blocks
+ * (innermost first), the text, the paths bound to SQL parameters, and the
+ * text up to the last each separator, which comes before the text and which
+ * empty clause blocks do not trim. An indeterminate condition splits an
+ * outcome in two.
+ */
+type Outcome = [
+    blocks: Frame[],
+    text: string,
+    paths: string[],
+    kept: string,
+];
+
+/**
+ * Enter the branch of a condition: `true` renders it, `false` keeps
+ * looking, and an indeterminate condition gives both outcomes.
+ */
+type EnterBranch<
+    Holds extends boolean,
+    Blocks extends Frame[],
+    Text extends string,
+    Paths extends string[],
+    Kept extends string,
+> =
+    | (true extends Holds ? [ [ "emit", ...Blocks ], Text, Paths, Kept ]
+        : never)
+    | (false extends Holds ? [ [ "seek", ...Blocks ], Text, Paths, Kept ]
+        : never);
+
+/**
+ * Apply a marker to an outcome whose text is being rendered.
+ * `/*:path* /` markers are bound if `Style` is a placeholder style.
+ */
+type RenderMarker<
+    Marker extends string,
+    Blocks extends Frame[],
+    Text extends string,
+    Paths extends string[],
+    Kept extends string,
+    Data extends Record<string, unknown>,
+    Predicates extends ConditionPredicates,
+    Truthiness extends TruthinessPreset,
+    Style extends PlaceholderStyle | null,
+> = Marker extends `if:${infer Cond}`
+    ? EnterBranch<
+        EvalCondition<Cond, Data, Predicates, Truthiness>,
+        Blocks,
+        Text,
+        Paths,
+        Kept
+    >
+    : Marker extends `elif:${string}` | "else"
+        ? Blocks extends [ Frame, ...infer Outer extends Frame[] ]
+            ? [ [ "done", ...Outer ], Text, Paths, Kept ]
+        : never
+    : Marker extends "endif"
+        ? Blocks extends [ Frame, ...infer Outer extends Frame[] ]
+            ? [ Outer, Text, Paths, Kept ]
+        : never
+    : Marker extends "where" | "having" | `list:${string}`
+        ? [ [ [ Marker, Text, Kept ], ...Blocks ], "", Paths, "" ]
+    : Marker extends "endwhere" | "endhaving" | "endlist" ? Blocks extends [
+            [
+                infer Clause extends string,
+                infer Before extends string,
+                infer OuterKept extends string,
+            ],
+            ...infer Outer extends Frame[],
+        ] ? [
+                Outer,
+                AppendClause<Before, Clause, `${Kept}${Text}`>,
+                Paths,
+                OuterKept,
+            ]
+        : never
+    : `/*${Marker}*/` extends SeparatorMarker
+        ? [ Blocks, "", Paths, `${Kept}${Text}` ]
+    : Marker extends `=${infer Expr}`
+        ? [ Blocks, `${Text}${EvalInterpolation<Expr, Data>}`, Paths, Kept ]
+    : Marker extends `:${infer Expr}` ? Style extends PlaceholderStyle
+            ? ParseInterpolation<Expr> extends InterpolationNode<
+                PathNode<infer Path>
+            > ? BindParameter<Style, Path, Paths> extends [
+                    infer Placeholder extends string,
+                    infer Next extends string[],
+                ] ? [ Blocks, `${Text}${Placeholder}`, Next, Kept ]
+                : never
+            : never
+        : [ Blocks, `${Text}/*${Marker}*/`, Paths, Kept ]
+    : [ Blocks, `${Text}${CommentText<Marker>}`, Paths, Kept ];
 
 /**
- * Check if any condition in the data object has an indeterminate type (widened boolean/string/number).
- * If so, we can't compute the result at compile time.
+ * Apply a marker to an outcome that is skipping text: only the markers of
+ * conditional blocks matter.
  */
-type HasIndeterminateCondition<
+type SkipMarker<
+    Marker extends string,
+    Blocks extends Frame[],
+    Text extends string,
+    Paths extends string[],
+    Kept extends string,
+    Data extends Record<string, unknown>,
+    Predicates extends ConditionPredicates,
+    Truthiness extends TruthinessPreset,
+> = Marker extends `if:${string}`
+    ? [ [ "skip", ...Blocks ], Text, Paths, Kept ]
+    : Marker extends "endif"
+        ? Blocks extends [ Frame, ...infer Outer extends Frame[] ]
+            ? [ Outer, Text, Paths, Kept ]
+        : never
+    : Blocks extends [ "seek", ...infer Outer extends Frame[] ]
+        ? Marker extends `elif:${infer Cond}`
+            ? EnterBranch<
+                EvalCondition<Cond, Data, Predicates, Truthiness>,
+                Outer,
+                Text,
+                Paths,
+                Kept
+            >
+        : Marker extends "else" ? [ [ "emit", ...Outer ], Text, Paths, Kept ]
+        : [ Blocks, Text, Paths, Kept ]
+    : [ Blocks, Text, Paths, Kept ];
+
+/**
+ * Apply the text before a marker and the marker to each outcome.
+ */
+type Step<
+    Outcomes extends Outcome,
+    Before extends string,
+    Marker extends string,
+    Data extends Record<string, unknown>,
+    Predicates extends ConditionPredicates,
+    Truthiness extends TruthinessPreset,
+    Style extends PlaceholderStyle | null,
+> = Outcomes extends [
+    infer Blocks extends Frame[],
+    infer Text extends string,
+    infer Paths extends string[],
+    infer Kept extends string,
+] ? Blocks extends [] | [ "emit" | ClauseFrame, ...Frame[] ] ? RenderMarker<
+            Marker,
+            Blocks,
+            `${Text}${Before}`,
+            Paths,
+            Kept,
+            Data,
+            Predicates,
+            Truthiness,
+            Style
+        >
+    : SkipMarker<
+        Marker,
+        Blocks,
+        Text,
+        Paths,
+        Kept,
+        Data,
+        Predicates,
+        Truthiness
+    >
+    : never;
+
+/**
+ * Walk the markers of an expanded template once, from left to right, and
+ * return the union of the texts of all outcomes. Tail-recursive, so the
+ * number of blocks and their nesting are limited only by the number of
+ * markers TypeScript can iterate over (about 1000).
+ */
+type WalkTemplate<
     Template extends string,
     Data extends Record<string, unknown>,
-> = Template extends `${string}/*if:${infer Cond}*/${infer Rest}`
-    ? EvalCondition<Cond, Data> extends boolean
-        ? boolean extends EvalCondition<Cond, Data> ? true // Indeterminate
-        : HasIndeterminateCondition<Rest, Data>
-    : HasIndeterminateCondition<Rest, Data>
-    : false;
+    Predicates extends ConditionPredicates,
+    Truthiness extends TruthinessPreset,
+    Style extends PlaceholderStyle | null,
+    Outcomes extends Outcome = [ [], "", [], "" ],
+> = Template extends `${infer Before}/*${infer Marker}*/${infer Rest}`
+    ? WalkTemplate<
+        Rest,
+        Data,
+        Predicates,
+        Truthiness,
+        Style,
+        Step<Outcomes, Before, Marker, Data, Predicates, Truthiness, Style>
+    >
+    : Outcomes extends [
+        Frame[],
+        infer Text extends string,
+        string[],
+        infer Kept extends string,
+    ] ? `${Kept}${Text}${Template}`
+    : never;
+
+/**
+ * The type of a template parameter: the template if it is valid, and the
+ * template intersected with its syntax error otherwise, so that a call with
+ * a broken literal template does not compile and shows the reason.
+ */
+export type CheckedTemplate<
+    Template extends string,
+    Syntax extends SyntaxProfile,
+    Partials extends TemplatePartials,
+    Predicates extends ConditionPredicates = ConditionPredicates,
+> = PreparedTemplate<Template, Syntax, Partials, Predicates> extends
+    infer Prepared ? Prepared extends string ? Template
+    : Template & Prepared
+    : never;
+
+/**
+ * A literal template as the result types read it: normalized, with its
+ * partials included. A `TemplateSyntaxError` if it is not valid, or if it
+ * calls a predicate not in `Predicates`; unknown predicates are not checked
+ * if `Predicates` is not a literal set.
+ */
+export type PreparedTemplate<
+    Template extends string,
+    Syntax extends SyntaxProfile,
+    Partials extends TemplatePartials,
+    Predicates extends ConditionPredicates = ConditionPredicates,
+> = ExpandIncludes<
+    NormalizeTemplate<Template, Syntax>,
+    Partials,
+    Syntax
+> extends infer Expanded
+    ? Expanded extends string
+        ? [ ValidateTemplate<Expanded> ] extends [ never ]
+            ? string extends keyof Predicates ? Expanded
+            : [ CheckPredicates<Expanded, Predicates> ] extends [ never ]
+                ? Expanded
+            : CheckPredicates<Expanded, Predicates>
+        : ValidateTemplate<Expanded>
+    : Expanded
+    : never;
 
 /**
- * Process the innermost conditional block (one without nested /*if: in content).
- * This handles nested conditions by processing from inside out.
+ * Process the markers of a normalized template, binding `/*:path* /`
+ * markers if `Style` is a placeholder style. Falls back to `string` if it
+ * has more than `MaxIndeterminate` indeterminate conditions.
  */
-type ProcessInnermost<
+type ProcessTemplate<
     Template extends string,
     Data extends Record<string, unknown>,
-> = Template extends
-    `${infer Before}/*if:${infer Cond}*/${infer Content}/*endif*/${infer After}`
-    ? Contains<Content, "/*if:"> extends true
-        // Content has nested /*if: - the match captured wrong /*endif*/
-        // Re-match with Content+/*endif*/+After to find the true innermost
-        ? `${Before}/*if:${Cond}*/${ProcessInnermost<
-            `${Content}/*endif*/${After}`,
-            Data
-        >}`
-        // This is truly innermost - evaluate and replace
-    : EvalCondition<Cond, Data> extends true ? `${Before}${Content}${After}`
-    : EvalCondition<Cond, Data> extends false ? `${Before}${After}`
-        // Indeterminate (boolean) - fall back to string
-    : string
-    : Template;
+    MaxIndeterminate extends number,
+    Predicates extends ConditionPredicates,
+    Truthiness extends TruthinessPreset,
+    Style extends PlaceholderStyle | null,
+> = ExpandEachBlocks<Template, Data> extends infer Expanded extends string
+    ? string extends Expanded ? string
+    : ExceedsIndeterminate<
+        Expanded,
+        Data,
+        Predicates,
+        Truthiness,
+        MaxIndeterminate
+    > extends true ? string
+    : WalkTemplate<Expanded, Data, Predicates, Truthiness, Style>
+    : never;
 
 /**
- * Recursively process all conditional blocks until none remain.
- * Processes innermost conditions first, then works outward.
- * Falls back to `string` if any condition is indeterminate.
+ * The result type of conditionalString - the processed string literal,
+ * or a `TemplateSyntaxError` if the template is not valid.
+ * `Syntax` is the syntax profile the template is written in.
+ * Indeterminate conditions (e.g. a `boolean` flag) give the union of the
+ * possible results, up to `MaxIndeterminate` of them; with more the result
+ * is `string`. `Partials` are the partials the template can include, and
+ * `Predicates` the predicates its conditions can call.
  */
-type ProcessConditionalString<
+export type ConditionalStringResult<
     Template extends string,
     Data extends Record<string, unknown>,
-    Depth extends number[] = [],
-> =
-    // If any condition is indeterminate, fall back to string immediately
-    HasIndeterminateCondition<Template, Data> extends true ? string
-        // Recursion depth limit (prevent infinite loops)
-        : Depth["length"] extends 20 ? Template
-        // Check if there are any conditions left to process
-        : Contains<Template, "/*if:"> extends true ? ProcessConditionalString<
-                ProcessInnermost<Template, Data>,
+    Syntax extends SyntaxProfile = "c",
+    MaxIndeterminate extends number = DefaultMaxIndeterminate,
+    Partials extends TemplatePartials = NoPartials,
+    Predicates extends ConditionPredicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> = PreparedTemplate<Template, Syntax, Partials, Predicates> extends
+    infer Prepared
+    ? Prepared extends string
+        ? ProcessTemplate<
+            Prepared,
+            Data,
+            MaxIndeterminate,
+            Predicates,
+            Truthiness,
+            null
+        >
+    : Prepared
+    : never;
+
+/**
+ * The result type of conditionalString.sql - the query text with
+ * placeholders in the given style, and the bound values.
+ */
+export type ConditionalSqlResult<
+    Template extends string,
+    Data extends Record<string, unknown>,
+    Style extends PlaceholderStyle = "postgres",
+    Syntax extends SyntaxProfile = "c",
+    MaxIndeterminate extends number = DefaultMaxIndeterminate,
+    Partials extends TemplatePartials = NoPartials,
+    Predicates extends ConditionPredicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> = PreparedTemplate<Template, Syntax, Partials, Predicates> extends
+    infer Prepared
+    ? Prepared extends string ? SqlQuery<
+            ProcessTemplate<
+                Prepared,
                 Data,
-                [ ...Depth, 0 ]
-            >
-        : Template;
+                MaxIndeterminate,
+                Predicates,
+                Truthiness,
+                Style
+            >,
+            Style
+        >
+    : Prepared
+    : never;
 
 /**
- * The result type of conditionalString - the processed string literal.
+ * The result type of conditionalString.partial - the template left after
+ * resolving the conditions known from `Data`, written C-style.
  */
-export type ConditionalStringResult<
+export type ConditionalPartialResult<
     Template extends string,
     Data extends Record<string, unknown>,
-> = ProcessConditionalString<Template, Data>;
+    Syntax extends SyntaxProfile = "c",
+    Partials extends TemplatePartials = NoPartials,
+    Predicates extends ConditionPredicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> = PreparedTemplate<Template, Syntax, Partials, Predicates> extends
+    infer Prepared
+    ? Prepared extends string
+        ? PartialResult<Prepared, Data, Predicates, Truthiness>
+    : Prepared
+    : never;
 
 // ============================================================================
 // Runtime implementation
@@ -148,24 +518,113 @@ export type ConditionalStringResult<
  * This allows specifying a "static" type like `{ flag: true }` for the return type,
  * while accepting runtime data like `{ flag: boolean }`.
  */
-type TypedConditionalString<StaticData extends Record<string, unknown>> = <
+type TypedConditionalString<
+    StaticData extends Record<string, unknown>,
+    Syntax extends SyntaxProfile,
+    MaxIndeterminate extends number,
+    Partials extends TemplatePartials,
+    Predicates extends ConditionPredicates,
+    Truthiness extends TruthinessPreset,
+> = <Template extends string>(
+    template: CheckedTemplate<Template, Syntax, Partials, Predicates>,
+    data:
+        & { [K in keyof StaticData]: unknown; }
+        & TemplateData<Template, Syntax, Partials>,
+    options?: RenderOptions,
+) => ConditionalStringResult<
+    Template,
+    StaticData,
+    Syntax,
+    MaxIndeterminate,
+    Partials,
+    Predicates,
+    Truthiness
+>;
+
+/**
+ * A template parsed by conditionalString.compile, ready to be rendered.
+ */
+export interface CompiledTemplate<
     Template extends string,
->(
-    template: Template,
-    data: { [K in keyof StaticData]: unknown; },
-) => ConditionalStringResult<Template, StaticData>;
+    Syntax extends SyntaxProfile = "c",
+    MaxIndeterminate extends number = DefaultMaxIndeterminate,
+    Partials extends TemplatePartials = NoPartials,
+    Predicates extends ConditionPredicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> {
+    /**
+     * Render the template with inferred types for Data.
+     */
+    <Data extends Record<string, unknown>>(
+        data: Data & TemplateData<Template, Syntax, Partials>,
+        options?: RenderOptions,
+    ): ConditionalStringResult<
+        Template,
+        Data,
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Predicates,
+        Truthiness
+    >;
+
+    /**
+     * Render the template in SQL mode, binding its `/*:path* /` markers.
+     */
+    sql<
+        Data extends Record<string, unknown>,
+        Style extends PlaceholderStyle = "postgres",
+    >(
+        data: Data & TemplateData<Template, Syntax, Partials>,
+        options?: SqlOptions<Style>,
+    ): ConditionalSqlResult<
+        Template,
+        Data,
+        Style,
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Predicates,
+        Truthiness
+    >;
+
+    /**
+     * The source template.
+     */
+    readonly template: Template;
+}
 
 /**
- * Interface for the conditionalString function with the .typed() method.
+ * Interface for the conditionalString function with the .with() method.
+ * `Syntax` is the syntax profile templates are written in,
+ * `MaxIndeterminate` the number of indeterminate conditions expanded into a
+ * union of results, `Partials` the partials templates can include, and
+ * `Predicates` the predicates conditions can call besides the built-in ones.
  */
-interface ConditionalStringFn {
+export interface ConditionalStringFn<
+    Syntax extends SyntaxProfile = "c",
+    MaxIndeterminate extends number = DefaultMaxIndeterminate,
+    Partials extends TemplatePartials = NoPartials,
+    Predicates extends ConditionPredicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> {
     /**
      * Process a template with inferred types for both Template and Data.
+     * `options` enables strict checks of the data.
      */
     <Template extends string, Data extends Record<string, unknown>>(
-        template: Template,
-        data: Data,
-    ): ConditionalStringResult<Template, Data>;
+        template: CheckedTemplate<Template, Syntax, Partials, Predicates>,
+        data: Data & TemplateData<Template, Syntax, Partials>,
+        options?: RenderOptions,
+    ): ConditionalStringResult<
+        Template,
+        Data,
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Predicates,
+        Truthiness
+    >;
 
     /**
      * Create a typed version of conditionalString with a pre-specified Data type.
@@ -179,86 +638,428 @@ interface ConditionalStringFn {
      * // Data is typed as MyData, Template is inferred
      * ```
      */
-    with<Data extends Record<string, unknown>>(): TypedConditionalString<Data>;
+    with<Data extends Record<string, unknown>>(): TypedConditionalString<
+        Data,
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Predicates,
+        Truthiness
+    >;
+
+    /**
+     * Process an SQL template and bind the values of its `/*:path* /` markers.
+     * Only markers of included blocks are bound, and placeholders are
+     * numbered in the order they appear in the result.
+     *
+     * @example
+     * ```ts
+     * const query = conditionalString.sql(
+     *     `SELECT * FROM users WHERE 1=1 /*if:name* /AND name = /*:name* //*endif* /`,
+     *     { name: "John" } as const,
+     * );
+     * // query.text: "SELECT * FROM users WHERE 1=1 AND name = $1"
+     * // query.values: ["John"]
+     * ```
+     */
+    sql<
+        Template extends string,
+        Data extends Record<string, unknown>,
+        Style extends PlaceholderStyle = "postgres",
+    >(
+        template: CheckedTemplate<Template, Syntax, Partials, Predicates>,
+        data: Data & TemplateData<Template, Syntax, Partials>,
+        options?: SqlOptions<Style>,
+    ): ConditionalSqlResult<
+        Template,
+        Data,
+        Style,
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Predicates,
+        Truthiness
+    >;
+
+    /**
+     * Parse a template once and return a function that renders it.
+     * Rendering walks the parsed template in a single pass, so use this for
+     * templates that are rendered many times.
+     *
+     * @example
+     * ```ts
+     * const findUsers = conditionalString.compile(
+     *     `SELECT * FROM users WHERE 1=1 /*if:name* /AND name = /*:name* //*endif* /`,
+     * );
+     * const text = findUsers({ name: "John" });
+     * const query = findUsers.sql({ name: "John" });
+     * ```
+     */
+    compile<Template extends string>(
+        template: CheckedTemplate<Template, Syntax, Partials, Predicates>,
+    ): CompiledTemplate<
+        Template,
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Predicates,
+        Truthiness
+    >;
+
+    /**
+     * Resolve only the conditions whose paths exist in `data` and return the
+     * rest of the template, written C-style. Blocks with unknown conditions
+     * keep their markers, and compound conditions are simplified.
+     *
+     * @example
+     * ```ts
+     * const template = conditionalString.partial(
+     *     `/*if:isAdmin && showAll* /All/*else* /Own/*endif* /`,
+     *     { isAdmin: true } as const,
+     * );
+     * // Returns: "/*if:showAll* /All/*else* /Own/*endif* /"
+     * conditionalString(template, { showAll: false } as const);
+     * // Returns: "Own"
+     * ```
+     */
+    partial<Template extends string, Data extends Record<string, unknown>>(
+        template: CheckedTemplate<Template, Syntax, Partials, Predicates>,
+        data: Data,
+    ): ConditionalPartialResult<
+        Template,
+        Data,
+        Syntax,
+        Partials,
+        Predicates,
+        Truthiness
+    >;
+
+    /**
+     * Render a template and list its blocks: the branches of conditional
+     * blocks and each blocks, with the values their conditions read, their
+     * results, their offsets in the template and their enclosing blocks.
+     *
+     * @example
+     * ```ts
+     * const { text, blocks } = conditionalString.explain(
+     *     `/*if:a* /A/*else* /B/*endif* /`,
+     *     { a: false },
+     * );
+     * // text: "B"
+     * // blocks[0]: { kind: "if", condition: "a", values: { a: false },
+     * //     result: false, included: false, start: 0, end: 9, ... }
+     * ```
+     */
+    explain<Template extends string, Data extends Record<string, unknown>>(
+        template: CheckedTemplate<Template, Syntax, Partials, Predicates>,
+        data: Data & TemplateData<Template, Syntax, Partials>,
+        options?: RenderOptions,
+    ): TemplateExplanation<
+        Extract<
+            ConditionalStringResult<
+                Template,
+                Data,
+                Syntax,
+                MaxIndeterminate,
+                Partials,
+                Predicates,
+                Truthiness
+            >,
+            string
+        >
+    >;
+
+    /**
+     * Create a version of conditionalString whose templates can include
+     * the given partials with `/*include:name* /`, in addition to the ones
+     * registered before. Pass literals (or `as const`) so that result
+     * types can include them.
+     *
+     * @example
+     * ```ts
+     * const queries = conditionalString.withPartials({
+     *     notDeleted: "AND deleted_at IS NULL",
+     * });
+     * queries(`SELECT * FROM users WHERE 1=1 /*include:notDeleted* /`, {});
+     * // Returns: "SELECT * FROM users WHERE 1=1 AND deleted_at IS NULL"
+     * ```
+     */
+    withPartials<const Added extends TemplatePartials>(
+        partials: Added,
+    ): ConditionalStringFn<
+        Syntax,
+        MaxIndeterminate,
+        Omit<Partials, keyof Added> & Added,
+        Predicates,
+        Truthiness
+    >;
+
+    /**
+     * Create a version of conditionalString whose conditions can call the
+     * given predicates with `/*if:name(path)* /`, in addition to the
+     * built-in ones and the ones registered before. Result types treat
+     * their results as indeterminate, unless a predicate is a type guard.
+     *
+     * @example
+     * ```ts
+     * const queries = conditionalString.withPredicates({
+     *     isNumber: (value): value is number => typeof value === "number",
+     * });
+     * queries(`/*if:isNumber(limit)* /LIMIT /*=limit* //*endif* /`, {
+     *     limit: 10,
+     * } as const);
+     * // Returns: "LIMIT 10"
+     * ```
+     */
+    withPredicates<const Added extends ConditionPredicates>(
+        predicates: Added,
+    ): ConditionalStringFn<
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Omit<Predicates, keyof Added> & Added,
+        Truthiness
+    >;
 }
 
 /**
- * Core implementation of the conditional string processing.
+ * Options of createConditionalString.
  */
-function processConditionalString<
-    Template extends string,
-    Data extends Record<string, unknown>,
->(template: Template, data: Data): ConditionalStringResult<Template, Data> {
-    // Pattern matches /*if:condition*/ ... /*endif*/
-    // Uses negative lookahead to match innermost conditions first (no nested /*if: inside)
-    // The condition can include ! for negation and dots for nested properties
-    const pattern =
-        /\/\*if:(!?[\w.]+)\*\/((?:(?!\/\*if:)[\s\S])*?)\/\*endif\*\//g;
-
-    let result: string = template;
-    let hasMatches = true;
-
-    // Process iteratively to handle nested conditions (inner first)
-    while (hasMatches) {
-        hasMatches = false;
-
-        result = result.replace(
-            pattern,
-            (_, condition: string, content: string) => {
-                hasMatches = true;
-
-                const isNegated = condition.startsWith("!");
-                const key = isNegated ? condition.slice(1) : condition;
-                const value = getNestedValue(data, key);
-                const isTruthy = Boolean(value);
-
-                // Return content if condition is met, empty string otherwise
-                return (isNegated ? !isTruthy : isTruthy) ? content : "";
-            },
-        );
-    }
+export interface ConditionalStringOptions<
+    Syntax extends SyntaxProfile,
+    MaxIndeterminate extends number,
+    Partials extends TemplatePartials = NoPartials,
+    Predicates extends ConditionPredicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> {
+    /**
+     * How markers are written: `"c"` (the default), `"html"`, `"sql"`,
+     * `"mustache"` or custom `{ open, close }` delimiters.
+     */
+    syntax?: Syntax;
+
+    /**
+     * How many indeterminate conditions (e.g. `boolean` flags) result types
+     * expand into a union of results before falling back to `string`.
+     * Only affects types; 4 by default.
+     */
+    maxIndeterminate?: MaxIndeterminate;
+
+    /**
+     * Partials templates can include with `/*include:name* /`, written in
+     * the same syntax profile.
+     */
+    partials?: Partials;
+
+    /**
+     * Predicates conditions can call with `/*if:name(path)* /`, besides
+     * the built-in ones.
+     */
+    predicates?: Predicates;
 
-    return result as unknown as ConditionalStringResult<Template, Data>;
+    /**
+     * How a value used as a condition on its own (`/*if:flag* /`) decides
+     * the condition: `"js"` (the default), `"strictBoolean"`, `"presence"`
+     * or `"emptyAware"`. Result types follow the preset.
+     */
+    truthiness?: Truthiness;
 }
 
 /**
- * Creates a typed version of conditionalString with a pre-specified Data type.
+ * Render parsed nodes in SQL mode.
  */
-function createTypedConditionalString<
-    StaticData extends Record<string, unknown>,
->(): TypedConditionalString<StaticData> {
-    return <Template extends string>(
-        template: Template,
-        data: { [K in keyof StaticData]: unknown; },
-    ): ConditionalStringResult<Template, StaticData> => {
-        return processConditionalString(template, data as StaticData);
-    };
-}
+function renderSql(
+    template: string,
+    nodes: TemplateNode[],
+    data: Record<string, unknown>,
+    options: SqlOptions,
+    predicates: ConditionPredicates,
+    truthiness: TruthinessPreset,
+): SqlQuery {
+    const binder = createParameterBinder(options.placeholder);
+    const text = renderTemplate(
+        template,
+        nodes,
+        data,
+        options,
+        binder,
+        predicates,
+        truthiness,
+    );
 
-export const conditionalString: ConditionalStringFn = Object.assign(
-    processConditionalString,
-    { with: createTypedConditionalString },
-);
+    return { text, values: binder.values };
+}
 
 /**
- * Get a nested value from an object using dot notation.
- * @example getNestedValue({ user: { isAdmin: true } }, "user.isAdmin") // true
+ * Create a conditionalString function for templates written in a syntax
+ * profile. Result types follow the profile, so use a literal (or
+ * `as const` delimiters) for the syntax.
+ *
+ * @example
+ * ```ts
+ * const html = createConditionalString({ syntax: "html" });
+ * html(`<p><!--if:admin-->Admin<!--endif--></p>`, { admin: true } as const);
+ * // Returns: "<p>Admin</p>"
+ * ```
  */
-function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-    const keys = path.split(".");
-    let current: unknown = obj;
-
-    for (const key of keys) {
-        if (current === null || current === undefined) {
-            return undefined;
-        }
-        if (typeof current !== "object") {
-            return undefined;
-        }
-        current = (current as Record<string, unknown>)[key];
-    }
-
-    return current;
+export function createConditionalString<
+    const Syntax extends SyntaxProfile = "c",
+    const MaxIndeterminate extends number = DefaultMaxIndeterminate,
+    const Partials extends TemplatePartials = NoPartials,
+    const Predicates extends ConditionPredicates = NoPredicates,
+    const Truthiness extends TruthinessPreset = "js",
+>(
+    options: ConditionalStringOptions<
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Predicates,
+        Truthiness
+    > = {},
+): ConditionalStringFn<
+    Syntax,
+    MaxIndeterminate,
+    Partials,
+    Predicates,
+    Truthiness
+> {
+    const syntax: SyntaxProfile = options.syntax ?? "c";
+    const partials: TemplatePartials = options.partials ?? {};
+    const predicates: ConditionPredicates = options.predicates ?? {};
+    const truthiness: TruthinessPreset = options.truthiness ?? "js";
+
+    const parse = (template: string): TemplateNode[] => {
+        const nodes = parseTemplate(template, syntax, partials);
+        checkPredicates(template, nodes, predicates);
+        return nodes;
+    };
+
+    /**
+     * Core implementation of the conditional string processing.
+     */
+    const process = (
+        template: string,
+        data: Record<string, unknown>,
+        options?: RenderOptions,
+    ): string =>
+        renderTemplate(
+            template,
+            parse(template),
+            data,
+            options,
+            undefined,
+            predicates,
+            truthiness,
+        );
+
+    /**
+     * Implementation of conditionalString.sql.
+     */
+    const processSql = (
+        template: string,
+        data: Record<string, unknown>,
+        options: SqlOptions = {},
+    ): SqlQuery =>
+        renderSql(
+            template,
+            parse(template),
+            data,
+            options,
+            predicates,
+            truthiness,
+        );
+
+    /**
+     * Implementation of conditionalString.compile.
+     */
+    const compile = (template: string) => {
+        const nodes = parse(template);
+
+        const render = (
+            data: Record<string, unknown>,
+            options?: RenderOptions,
+        ): string =>
+            renderTemplate(
+                template,
+                nodes,
+                data,
+                options,
+                undefined,
+                predicates,
+                truthiness,
+            );
+
+        const sql = (
+            data: Record<string, unknown>,
+            options: SqlOptions = {},
+        ): SqlQuery =>
+            renderSql(template, nodes, data, options, predicates, truthiness);
+
+        return Object.assign(render, { sql, template });
+    };
+
+    /**
+     * Implementation of conditionalString.partial.
+     */
+    const partial = (
+        template: string,
+        data: Record<string, unknown>,
+    ): string =>
+        partialTemplate(parse(template), data, predicates, truthiness);
+
+    /**
+     * Implementation of conditionalString.explain.
+     */
+    const explain = (
+        template: string,
+        data: Record<string, unknown>,
+        options?: RenderOptions,
+    ): TemplateExplanation =>
+        explainTemplate(
+            template,
+            parse(template),
+            data,
+            options,
+            predicates,
+            truthiness,
+        );
+
+    /**
+     * Implementation of conditionalString.withPartials.
+     */
+    const withPartials = (added: TemplatePartials) =>
+        createConditionalString({
+            ...options,
+            partials: { ...partials, ...added },
+        });
+
+    /**
+     * Implementation of conditionalString.withPredicates.
+     */
+    const withPredicates = (added: ConditionPredicates) =>
+        createConditionalString({
+            ...options,
+            predicates: { ...predicates, ...added },
+        });
+
+    // The typed signatures only narrow the results of these functions
+    return Object.assign(process, {
+        with: () => process,
+        sql: processSql,
+        compile,
+        partial,
+        explain,
+        withPartials,
+        withPredicates,
+    }) as unknown as ConditionalStringFn<
+        Syntax,
+        MaxIndeterminate,
+        Partials,
+        Predicates,
+        Truthiness
+    >;
 }
 
+export const conditionalString: ConditionalStringFn = createConditionalString();
+
 export default conditionalString;
@@ -0,0 +1,319 @@
+/**
+ * The data shape a template needs, derived from its markers.
+ *
+ * Every path used in a condition, an interpolation, a bound parameter or an
+ * each block becomes a required property, nested by its dots. An each block
+ * requires an array, and paths of its alias describe the array items:
+ *
+ * `/*if:user.isAdmin* /.../*each:tags as tag* //*=tag.name* //*endeach* /`
+ * requires `{ user: { isAdmin: unknown }; tags: readonly { name: unknown }[] }`
+ *
+ * Properties are optional if the path is marked optional with `?`
+ * (`/*if:debug?* /`), or if an interpolation or parameter has a fallback
+ * (`/*=limit ?? 50* /`). An object all of whose paths are optional is
+ * optional too.
+ */
+
+import type {
+    AndNode,
+    CallNode,
+    ComparisonNode,
+    ConditionNode,
+    InNode,
+    InterpolationNode,
+    LiteralNode,
+    NotNode,
+    OrNode,
+    ParseCondition,
+    ParseInterpolation,
+    PathNode,
+} from "./condition.js";
+import type { ParseEachSpec } from "./each.js";
+import type {
+    ExpandIncludes,
+    NoPartials,
+    TemplatePartials,
+} from "./include.js";
+import type { NormalizeTemplate, TemplateNode } from "./parser.js";
+import type { SyntaxProfile } from "./syntax.js";
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * The path of an array item in collected paths: `tags.[].name`.
+ */
+type ItemSegment = "[]";
+
+/**
+ * Collect the paths of a parsed condition. Optional paths end with `?`.
+ */
+type NodePaths<Node> =
+    // A non-literal node (e.g. `ConditionNode` itself) has no known paths
+    [ ConditionNode ] extends [ Node ] ? never
+        : Node extends PathNode<infer Path, infer Optional>
+            ? Optional extends true ? `${Path}?` : Path
+        : Node extends ComparisonNode<infer _, infer Left, infer Right>
+            ? NodePaths<Left> | NodePaths<Right>
+        : Node extends InNode<infer Left> ? NodePaths<Left>
+        : Node extends CallNode<infer _, infer Argument> ? NodePaths<Argument>
+        : Node extends NotNode<infer Operand> ? NodePaths<Operand>
+        : Node extends AndNode<infer Left, infer Right>
+            ? NodePaths<Left> | NodePaths<Right>
+        : Node extends OrNode<infer Left, infer Right>
+            ? NodePaths<Left> | NodePaths<Right>
+        : never;
+
+/**
+ * Get the path of a parsed value expression; it is optional if the
+ * expression has a fallback.
+ */
+type InterpolationPath<Node> = Node extends InterpolationNode<
+    PathNode<infer Path, infer Optional>,
+    infer Fallback
+> ? Optional extends true ? `${Path}?`
+    : Fallback extends LiteralNode ? `${Path}?`
+    : Path
+    : never;
+
+/**
+ * Replace an alias of an enclosing each block at the start of a path with
+ * the item path it stands for. `Scope` lists `[alias, itemPath]` pairs,
+ * innermost last.
+ */
+type ResolveAlias<
+    Path extends string,
+    Scope extends [ string, string ][],
+> = Scope extends [
+    ...infer Outer extends [ string, string ][],
+    [ infer Alias extends string, infer ItemPath extends string ],
+] ? Path extends Alias | `${Alias}?` ? ItemPath
+    : Path extends `${Alias}.${infer Rest}` ? `${ItemPath}.${Rest}`
+    : ResolveAlias<Path, Outer>
+    : Path;
+
+/**
+ * Collect the paths of all markers, with aliases resolved.
+ */
+type CollectPaths<
+    Template extends string,
+    Scope extends [ string, string ][] = [],
+    Paths extends string = never,
+> = Template extends `${string}/*${infer Marker}*/${infer Rest}`
+    ? Marker extends `if:${infer Expr}` | `elif:${infer Expr}`
+        ? CollectPaths<
+            Rest,
+            Scope,
+            Paths | ResolveAlias<NodePaths<ParseCondition<Expr>>, Scope>
+        >
+    : Marker extends `${"=" | ":"}${infer Expr}` ? CollectPaths<
+            Rest,
+            Scope,
+            | Paths
+            | ResolveAlias<InterpolationPath<ParseInterpolation<Expr>>, Scope>
+        >
+    : Marker extends `each:${infer Spec}`
+        ? ParseEachSpec<Spec> extends [
+            infer Path extends string,
+            infer Alias extends string,
+            string,
+        ] ? `${ResolveAlias<Path, Scope>}.${ItemSegment}` extends
+            infer ItemPath extends string ? CollectPaths<
+                Rest,
+                [ ...Scope, [ Alias, ItemPath ] ],
+                Paths | ItemPath
+            >
+            : never
+        : CollectPaths<Rest, Scope, Paths>
+    : Marker extends "endeach" ? Scope extends [
+            ...infer Outer extends [ string, string ][],
+            [ string, string ],
+        ] ? CollectPaths<Rest, Outer, Paths>
+        : CollectPaths<Rest, Scope, Paths>
+    : CollectPaths<Rest, Scope, Paths>
+    : Paths;
+
+/**
+ * The first segment of each path, with its optional `?`.
+ */
+type Segment<Paths extends string> = Paths extends `${infer Head}.${string}`
+    ? Head
+    : Paths;
+
+type KeyOf<Segments extends string> = Segments extends `${infer Key}?` ? Key
+    : Segments;
+
+/**
+ * The paths below a key: `user.name` and `user?.age` give `name | age`
+ * for `user`.
+ */
+type SubPaths<Paths extends string, Key extends string> = Paths extends
+    `${Key}.${infer Rest}` | `${Key}?.${infer Rest}` ? Rest
+    : never;
+
+type Simplify<T> = { [K in keyof T]: T[K]; } & {};
+
+/**
+ * The keys that may be missing: those a path marks optional, and those all
+ * of whose paths are optional (`user.nickname?` may miss `user` too).
+ */
+type OptionalKeys<Paths extends string> =
+    | KeyOf<Extract<Segment<Paths>, `${string}?`>>
+    | Exclude<
+        KeyOf<Segment<Paths>>,
+        KeyOf<Segment<Exclude<Paths, `${string}?`>>>
+    >;
+
+/**
+ * Build a nested object type from collected paths. A key is optional if
+ * any of its paths marks it optional, or if all of them are optional.
+ */
+type PathsToShape<Paths extends string> = [ Paths ] extends [ never ] ? unknown
+    : ItemSegment extends Segment<Paths>
+        ? readonly PathsToShape<SubPaths<Paths, ItemSegment>>[]
+    : Simplify<
+        & {
+            [Key in Exclude<KeyOf<Segment<Paths>>, OptionalKeys<Paths>>]:
+                PathsToShape<SubPaths<Paths, Key>>;
+        }
+        & {
+            [Key in OptionalKeys<Paths>]?: PathsToShape<SubPaths<Paths, Key>>;
+        }
+    >;
+
+/**
+ * The data a template requires: every referenced path as a nested property.
+ * Values are `unknown`; only the presence of keys is checked. Returns
+ * `unknown` (no requirements) if the template is not a literal or one of
+ * its partials cannot be included. `Syntax` is the syntax profile the
+ * template is written in, and `Partials` the partials it can include.
+ * @example TemplateData<"/*if:user.isAdmin* /A/*endif* /"> // { user: { isAdmin: unknown } }
+ */
+export type TemplateData<
+    Template extends string,
+    Syntax extends SyntaxProfile = "c",
+    Partials extends TemplatePartials = NoPartials,
+> = ExpandIncludes<
+    NormalizeTemplate<Template, Syntax>,
+    Partials,
+    Syntax
+> extends infer Expanded extends string
+    ? PathsToShape<CollectPaths<Expanded>>
+    : unknown;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * List the paths of all markers of parsed nodes, in the notation of the
+ * type-level paths: aliases resolved to their item path (`tags.[].name`),
+ * and `?` at the end of optional paths. Each path is listed once, in the
+ * order of its first use.
+ * @example templatePaths(parseTemplate("/*if:a* //*=b ?? 1* //*endif* /")) // ["a", "b?"]
+ */
+export function templatePaths(nodes: TemplateNode[]): string[] {
+    const paths = new Set<string>();
+    collectNodePaths(nodes, new Map(), paths);
+
+    return [ ...paths ];
+}
+
+/**
+ * Add the paths of nodes to a set. `scope` maps the aliases of the
+ * enclosing each blocks to their item paths.
+ */
+function collectNodePaths(
+    nodes: TemplateNode[],
+    scope: ReadonlyMap<string, string>,
+    paths: Set<string>,
+): void {
+    for (const node of nodes) {
+        switch (node.type) {
+            case "if":
+                for (const branch of node.branches) {
+                    if (branch.condition !== null) {
+                        collectConditionPaths(branch.condition, scope, paths);
+                    }
+                    collectNodePaths(branch.children, scope, paths);
+                }
+                break;
+            case "each": {
+                const path = node.optional ? `${node.path}?` : node.path;
+                const itemPath = `${resolveAlias(path, scope)}.[]`;
+                paths.add(itemPath);
+                collectNodePaths(
+                    node.body,
+                    new Map(scope).set(node.alias, itemPath),
+                    paths,
+                );
+                collectNodePaths(node.empty ?? [], scope, paths);
+                break;
+            }
+            case "where":
+            case "having":
+            case "list":
+            case "include":
+                collectNodePaths(node.children, scope, paths);
+                break;
+            case "value":
+            case "parameter": {
+                const { value, fallback } = node.expression;
+                const path = value.optional || fallback !== null
+                    ? `${value.path}?`
+                    : value.path;
+                paths.add(resolveAlias(path, scope));
+                break;
+            }
+        }
+    }
+}
+
+function collectConditionPaths(
+    node: ConditionNode,
+    scope: ReadonlyMap<string, string>,
+    paths: Set<string>,
+): void {
+    switch (node.type) {
+        case "path": {
+            const path = node.optional ? `${node.path}?` : node.path;
+            paths.add(resolveAlias(path, scope));
+            break;
+        }
+        case "literal":
+            break;
+        case "comparison":
+        case "and":
+        case "or":
+            collectConditionPaths(node.left, scope, paths);
+            collectConditionPaths(node.right, scope, paths);
+            break;
+        case "in":
+            collectConditionPaths(node.left, scope, paths);
+            break;
+        case "call":
+            collectConditionPaths(node.argument, scope, paths);
+            break;
+        case "not":
+            collectConditionPaths(node.operand, scope, paths);
+            break;
+    }
+}
+
+/**
+ * Replace an alias at the start of a path with the item path it stands
+ * for.
+ */
+function resolveAlias(
+    path: string,
+    scope: ReadonlyMap<string, string>,
+): string {
+    const [ head ] = path.split(".", 1);
+    const itemPath = scope.get(head.replace(/\?$/, ""));
+    if (itemPath === undefined) {
+        return path;
+    }
+
+    return head === path ? itemPath : itemPath + path.slice(head.length);
+}
@@ -0,0 +1,243 @@
+/**
+ * Repetition blocks: `/*each:items as item* /.../*empty* /.../*endeach* /`.
+ *
+ * At the type level each block is expanded before conditions are evaluated:
+ * the body is repeated once per tuple item, with every reference to the alias
+ * in its markers rewritten to the item's path (`item.name` becomes
+ * `items.0.name`). Conditions, interpolations and bound parameters of the
+ * body are then processed like any other marker. The runtime renderer binds
+ * the alias to the same path instead of rewriting text.
+ *
+ * - `sep=", "` (or `sep=', '`) after the alias is inserted between items;
+ *   at the type level it is followed by a `/*each* /` marker, which a valid
+ *   template cannot contain, so that an empty clause block after it does
+ *   not remove its whitespace
+ * - `/*empty* /` starts the branch used when the array is empty or missing
+ * - `/*each:items? as item* /` marks the array optional
+ * - Nested blocks must use different aliases
+ */
+
+import {
+    type GetPath,
+    type TokenizeCondition,
+    type Whitespace,
+} from "./condition.js";
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+type Trim<S extends string> = S extends `${Whitespace}${infer Rest}`
+    ? Trim<Rest>
+    : S extends `${infer Rest}${Whitespace}` ? Trim<Rest>
+    : S;
+
+/**
+ * Count the occurrences of `Pattern` in `S` as a tuple length.
+ */
+type Occurrences<
+    S extends string,
+    Pattern extends string,
+    Count extends unknown[] = [],
+> = S extends `${string}${Pattern}${infer Rest}`
+    ? Occurrences<Rest, Pattern, [ ...Count, unknown ]>
+    : Count;
+
+/**
+ * Split the text after `/*each:...* /` at its matching `/*endeach* /`.
+ * `Open` holds one element per nested block that is not closed yet.
+ * Returns `[body, after]` or `never` if the block is not closed.
+ */
+type SplitEachBlock<
+    S extends string,
+    Body extends string = "",
+    Open extends unknown[] = [],
+> = S extends `${infer Content}/*endeach*/${infer After}`
+    ? [ ...Open, ...Occurrences<Content, "/*each:"> ] extends [
+        unknown,
+        ...infer StillOpen,
+    ] ? SplitEachBlock<After, `${Body}${Content}/*endeach*/`, StillOpen>
+    : [ `${Body}${Content}`, After ]
+    : never;
+
+/**
+ * Split an each block body at its own `/*empty* /` separator (not one of a
+ * nested block). Returns `[body, emptyBranch]`.
+ */
+type SplitEmptyBranch<S extends string, Body extends string = ""> = S extends
+    `${infer Content}/*empty*/${infer Rest}`
+    ? Occurrences<`${Body}${Content}`, "/*each:">["length"] extends
+        Occurrences<`${Body}${Content}`, "/*endeach*/">["length"]
+        ? [ `${Body}${Content}`, Rest ]
+    : SplitEmptyBranch<Rest, `${Body}${Content}/*empty*/`>
+    : [ `${Body}${S}`, "" ];
+
+/**
+ * Remove the `?` that marks a path optional.
+ */
+type RequiredPath<Path extends string> = Path extends `${infer Name}?` ? Name
+    : Path;
+
+/**
+ * Parse `path as alias sep="..."` into `[path, alias, separator]`.
+ * The path keeps its optional `?`.
+ */
+export type ParseEachSpec<Spec extends string> = Trim<Spec> extends
+    `${infer Path} as ${infer Rest}`
+    ? Trim<Rest> extends `${infer Alias} sep=${infer Separator}`
+        ? Trim<Separator> extends `"${infer Text}"` | `'${infer Text}'`
+            ? [ Trim<Path>, Trim<Alias>, Text ]
+        : never
+    : [ Trim<Path>, Trim<Rest>, "" ]
+    : never;
+
+type JoinTokens<Tokens extends string[]> = Tokens extends
+    [ infer Head extends string, ...infer Rest extends string[] ]
+    ? Rest extends [] ? Head : `${Head} ${JoinTokens<Rest>}`
+    : "";
+
+/**
+ * Rewrite a path token that starts with the alias.
+ */
+type RewritePath<
+    Token extends string,
+    Alias extends string,
+    Prefix extends string,
+> = Token extends Alias ? Prefix
+    : Token extends `${Alias}?` ? `${Prefix}?`
+    : Token extends `${Alias}.${infer Rest}` ? `${Prefix}.${Rest}`
+    : Token;
+
+type RewriteTokens<
+    Tokens extends string[],
+    Alias extends string,
+    Prefix extends string,
+> = { [K in keyof Tokens]: RewritePath<Tokens[K], Alias, Prefix>; };
+
+/**
+ * Rewrite the alias in an expression. Tokens are rejoined with spaces.
+ */
+type RewriteExpression<
+    Expr extends string,
+    Alias extends string,
+    Prefix extends string,
+> = [ TokenizeCondition<Expr> ] extends [ never ] ? Expr
+    : JoinTokens<RewriteTokens<TokenizeCondition<Expr>, Alias, Prefix>>;
+
+type RewriteMarker<
+    Marker extends string,
+    Alias extends string,
+    Prefix extends string,
+> = Marker extends `if:${infer Expr}`
+    ? `if:${RewriteExpression<Expr, Alias, Prefix>}`
+    : Marker extends `elif:${infer Expr}`
+        ? `elif:${RewriteExpression<Expr, Alias, Prefix>}`
+    : Marker extends `${infer Kind extends "=" | ":"}${infer Expr}`
+        ? `${Kind}${RewriteExpression<Expr, Alias, Prefix>}`
+    : Marker extends `each:${infer Path} as ${infer Rest}`
+        ? `each:${RewritePath<Trim<Path>, Alias, Prefix>} as ${Rest}`
+    : Marker;
+
+/**
+ * Rewrite the alias in all markers of an each block body.
+ */
+type RewriteMarkers<
+    S extends string,
+    Alias extends string,
+    Prefix extends string,
+    Result extends string = "",
+> = S extends `${infer Before}/*${infer Marker}*/${infer After}`
+    ? RewriteMarkers<
+        After,
+        Alias,
+        Prefix,
+        `${Result}${Before}/*${RewriteMarker<Marker, Alias, Prefix>}*/`
+    >
+    : `${Result}${S}`;
+
+/**
+ * The marker after each separator of an expanded each block.
+ */
+export type SeparatorMarker = "/*each*/";
+
+/**
+ * Repeat the body once per tuple item, joined with the separator.
+ */
+type RepeatBody<
+    Body extends string,
+    Path extends string,
+    Alias extends string,
+    Separator extends string,
+    Length extends number,
+    Index extends unknown[] = [],
+    Result extends string = "",
+> = Index["length"] extends Length ? Result
+    : RepeatBody<
+        Body,
+        Path,
+        Alias,
+        Separator,
+        Length,
+        [ ...Index, unknown ],
+        `${Result}${Index extends [] ? ""
+            : `${Separator}${SeparatorMarker}`}${RewriteMarkers<
+            Body,
+            Alias,
+            `${Path}.${Index["length"]}`
+        >}`
+    >;
+
+/**
+ * Expand one each block over the type of its array.
+ * Returns `string` if the array is not a tuple.
+ */
+type ExpandEach<
+    Body extends string,
+    Empty extends string,
+    Path extends string,
+    Alias extends string,
+    Separator extends string,
+    Items,
+> = Items extends readonly unknown[]
+    ? number extends Items["length"] ? string
+    : Items["length"] extends 0 ? Empty
+    : RepeatBody<Body, Path, Alias, Separator, Items["length"]>
+    : Items extends null | undefined ? Empty
+    : unknown extends Items ? string
+    : Empty;
+
+/**
+ * Expand all each blocks of a template, outermost first.
+ * Returns `string` if the array of a block is not a tuple.
+ * @example ExpandEachBlocks<"/*each:xs as x* /[/*=x* /]/*endeach* /", { xs: ["a", "b"] }> // "[/*=xs.0* /][/*=xs.1* /]"
+ */
+export type ExpandEachBlocks<
+    Template extends string,
+    Data,
+    Result extends string = "",
+> = Template extends `${infer Before}/*each:${infer Spec}*/${infer Rest}`
+    ? [ SplitEachBlock<Rest>, ParseEachSpec<Spec> ] extends [
+        [ infer Block extends string, infer After extends string ],
+        [
+            infer Path extends string,
+            infer Alias extends string,
+            infer Separator extends string,
+        ],
+    ] ? SplitEmptyBranch<Block> extends [
+            infer Body extends string,
+            infer Empty extends string,
+        ] ? ExpandEach<
+                Body,
+                Empty,
+                RequiredPath<Path>,
+                Alias,
+                Separator,
+                GetPath<Data, RequiredPath<Path>>
+            > extends infer Expanded extends string
+                // The expanded block is scanned again for nested blocks
+                ? string extends Expanded ? string
+                : ExpandEachBlocks<`${Expanded}${After}`, Data, `${Result}${Before}`>
+            : never
+        : never
+    : string
+    : `${Result}${Template}`;
@@ -0,0 +1,177 @@
+/**
+ * Errors of malformed templates, at runtime and at the type level.
+ */
+
+/**
+ * Result type of a literal template that is not valid.
+ * The message matches the reason of the runtime error.
+ * @example TemplateSyntaxError<"Unclosed if block \"/*if:a* /\"">
+ */
+export interface TemplateSyntaxError<Message extends string> {
+    readonly syntaxError: Message;
+}
+
+/**
+ * Number of characters shown on each side of the error in a snippet.
+ */
+const snippetRadius = 40;
+
+/**
+ * Position of an error in a template.
+ */
+interface Location {
+    line: number;
+    column: number;
+    snippet: string;
+}
+
+/**
+ * Thrown when a template is not valid: an unbalanced block, an invalid
+ * condition or expression, or an unknown directive.
+ *
+ * @example
+ * ```ts
+ * try {
+ *     conditionalString("/*if:a* /A", {});
+ * }
+ * catch (error) {
+ *     // error.message:
+ *     // Unclosed if block "/*if:a* /" at line 1, column 1
+ *     // /*if:a* /A
+ *     // ^
+ * }
+ * ```
+ */
+export class ConditionalStringSyntaxError extends SyntaxError {
+    /**
+     * What is wrong, without the location.
+     */
+    readonly reason: string;
+
+    /**
+     * 0-based offset of the error in the template.
+     */
+    readonly offset: number;
+
+    /**
+     * 1-based line of the error.
+     */
+    readonly line: number;
+
+    /**
+     * 1-based column of the error.
+     */
+    readonly column: number;
+
+    /**
+     * The line of the error, with a `^` under the error on the next line.
+     */
+    readonly snippet: string;
+
+    constructor(reason: string, template: string, offset: number) {
+        const { line, column, snippet } = locate(template, offset);
+
+        super(`${reason} at line ${line}, column ${column}\n${snippet}`);
+
+        this.name = "ConditionalStringSyntaxError";
+        this.reason = reason;
+        this.offset = offset;
+        this.line = line;
+        this.column = column;
+        this.snippet = snippet;
+    }
+}
+
+/**
+ * Thrown in strict mode when the data does not match a template: a
+ * referenced path is missing, or a condition value is not a boolean. Also
+ * thrown in SQL mode when two paths get the same named placeholder.
+ *
+ * @example
+ * ```ts
+ * conditionalString("/*if:active* /A/*endif* /", {}, { strict: true });
+ * // Missing value "active" in "/*if:active* /" at line 1, column 1
+ * ```
+ */
+export class ConditionalStringDataError extends Error {
+    /**
+     * What is wrong, without the location.
+     */
+    readonly reason: string;
+
+    /**
+     * The full path of the value, with aliases of each blocks resolved
+     * (`items.0.name`).
+     */
+    readonly path: string;
+
+    /**
+     * 0-based offset of the marker in the template.
+     */
+    readonly offset: number;
+
+    /**
+     * 1-based line of the marker.
+     */
+    readonly line: number;
+
+    /**
+     * 1-based column of the marker.
+     */
+    readonly column: number;
+
+    /**
+     * The line of the marker, with a `^` under it on the next line.
+     */
+    readonly snippet: string;
+
+    constructor(
+        reason: string,
+        path: string,
+        template: string,
+        offset: number,
+    ) {
+        const { line, column, snippet } = locate(template, offset);
+
+        super(`${reason} at line ${line}, column ${column}\n${snippet}`);
+
+        this.name = "ConditionalStringDataError";
+        this.reason = reason;
+        this.path = path;
+        this.offset = offset;
+        this.line = line;
+        this.column = column;
+        this.snippet = snippet;
+    }
+}
+
+/**
+ * Find the line and column of an offset and cut the snippet around it.
+ */
+function locate(template: string, offset: number): Location {
+    const lineStart = template.lastIndexOf("\n", offset - 1) + 1;
+    const lineEnd = template.indexOf("\n", offset);
+    const column = offset - lineStart + 1;
+
+    return {
+        line: template.slice(0, offset).split("\n").length,
+        column,
+        snippet: createSnippet(
+            template.slice(lineStart, lineEnd === -1 ? undefined : lineEnd),
+            column - 1,
+        ),
+    };
+}
+
+/**
+ * Cut a long line around the error and mark the error with `^`.
+ */
+function createSnippet(line: string, index: number): string {
+    const start = Math.max(0, index - snippetRadius);
+    const end = Math.min(line.length, index + snippetRadius);
+    const prefix = start > 0 ? "..." : "";
+    const suffix = end < line.length ? "..." : "";
+
+    return `${prefix}${line.slice(start, end)}${suffix}\n`
+        + `${" ".repeat(prefix.length + index - start)}^`;
+}
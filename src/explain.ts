@@ -0,0 +1,186 @@
+/**
+ * Render traces: `conditionalString.explain(template, data)` renders a
+ * template and lists its blocks with how their conditions were decided.
+ *
+ * Every branch of a conditional block and every each block is listed in
+ * the order its marker appears, blocks in a branch that is not rendered
+ * included (without a result). Blocks in the body of an each block are
+ * listed once per item, with the paths of the item.
+ */
+
+import type { EachNode, IfNode, TemplateNode } from "./parser.js";
+
+/**
+ * A block of an explained template.
+ */
+export interface ExplainedBlock {
+    /**
+     * The directive of the block or branch.
+     */
+    kind: "if" | "elif" | "else" | "each";
+
+    /**
+     * Its marker, written C-style without trim flags.
+     */
+    marker: string;
+
+    /**
+     * The condition as written, or the path of an each block. `null` for
+     * `else`.
+     */
+    condition: string | null;
+
+    /**
+     * The values read while evaluating the condition, by full path (with
+     * the aliases of each blocks resolved).
+     */
+    values: Record<string, unknown>;
+
+    /**
+     * If the condition holds, or if the array of an each block has items.
+     * `null` if it was not evaluated.
+     */
+    result: boolean | null;
+
+    /**
+     * If the content of the block is in the result.
+     */
+    included: boolean;
+
+    /**
+     * Where the marker starts in the template.
+     */
+    start: number;
+
+    /**
+     * Where the branch or block ends: at the next branch, or after its
+     * closing marker.
+     */
+    end: number;
+
+    /**
+     * The name of the partial whose text `start` and `end` refer to, `null`
+     * for the template itself.
+     */
+    partial: string | null;
+
+    /**
+     * The index of the enclosing block in the list, `null` at the top.
+     */
+    parent: number | null;
+}
+
+/**
+ * The result of conditionalString.explain.
+ */
+export interface TemplateExplanation<Text extends string = string> {
+    text: Text;
+    blocks: ExplainedBlock[];
+}
+
+/**
+ * Where a render adds the blocks it visits: the list, the enclosing block
+ * and the partial being rendered.
+ */
+export interface BlockTrace {
+    blocks: ExplainedBlock[];
+    parent: number | null;
+    partial: string | null;
+}
+
+/**
+ * Add a block to a trace and return the trace of its content.
+ */
+export function traceBlock(
+    trace: BlockTrace,
+    block: Omit<ExplainedBlock, "partial" | "parent">,
+): BlockTrace {
+    const parent = trace.blocks.push({
+        ...block,
+        partial: trace.partial,
+        parent: trace.parent,
+    }) - 1;
+
+    return { ...trace, parent };
+}
+
+/**
+ * The parts of a listed branch known from the template.
+ */
+type BlockSource = Pick<
+    ExplainedBlock,
+    "kind" | "marker" | "condition" | "start" | "end"
+>;
+
+/**
+ * Describe a branch of a conditional block.
+ */
+export function describeBranch(node: IfNode, index: number): BlockSource {
+    const branch = node.branches[index];
+
+    return {
+        kind: index === 0 ? "if" : branch.condition === null ? "else" : "elif",
+        marker: branch.marker,
+        // The condition as written
+        condition: branch.condition === null
+            ? null
+            : branch.marker.slice(branch.marker.indexOf(":") + 1, -2),
+        start: branch.offset,
+        end: node.branches[index + 1]?.offset ?? node.closingSpan.end,
+    };
+}
+
+/**
+ * Describe an each block.
+ */
+export function describeEach(node: EachNode): BlockSource {
+    return {
+        kind: "each",
+        marker: node.marker,
+        condition: node.optional ? `${node.path}?` : node.path,
+        start: node.offset,
+        end: node.closingSpan.end,
+    };
+}
+
+/**
+ * Add the blocks of content that is not rendered, without evaluating them.
+ */
+export function traceSkipped(nodes: TemplateNode[], trace: BlockTrace): void {
+    for (const node of nodes) {
+        switch (node.type) {
+            case "if":
+                node.branches.forEach((branch, index) => {
+                    traceSkipped(
+                        branch.children,
+                        traceBlock(trace, {
+                            ...describeBranch(node, index),
+                            values: {},
+                            result: null,
+                            included: false,
+                        }),
+                    );
+                });
+                break;
+            case "each": {
+                const inner = traceBlock(trace, {
+                    ...describeEach(node),
+                    values: {},
+                    result: null,
+                    included: false,
+                });
+                traceSkipped(node.body, inner);
+                traceSkipped(node.empty ?? [], inner);
+                break;
+            }
+            case "where":
+            case "having":
+            case "list":
+                traceSkipped(node.children, trace);
+                break;
+            case "include":
+                traceSkipped(node.children, { ...trace, partial: node.name });
+                break;
+        }
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * Code generation for templates kept in their own files: a template read
+ * from a file is a `string`, so its result type can't be inferred. The
+ * generated module has the template as a literal constant and a render
+ * function bound to it:
+ *
+ * ```ts
+ * export const template = "SELECT * FROM t /*if:a* /WHERE a/*endif* /";
+ * export type Data = TemplateData<typeof template>;
+ * export function render<RenderData extends Record<string, unknown>>(
+ *     data: RenderData & Data,
+ *     options?: RenderOptions,
+ * ): ConditionalStringResult<typeof template, RenderData> { ... }
+ * ```
+ *
+ * `render` has the signature of `conditionalString` with the template
+ * filled in: its data must have the paths the template references, and its
+ * result type follows the data type.
+ */
+
+import { parseTemplate } from "./parser.js";
+import type { SyntaxProfile } from "./syntax.js";
+
+/**
+ * How a module is generated.
+ */
+export interface GenerateOptions {
+    /**
+     * The syntax profile of the template, `"c"` by default.
+     */
+    syntax?: SyntaxProfile;
+
+    /**
+     * The module the generated code imports the library from,
+     * `"@kuindji/conditional-string"` by default.
+     */
+    importFrom?: string;
+
+    /**
+     * The file the template was read from, named in the header comment.
+     */
+    source?: string;
+}
+
+/**
+ * Generate the TypeScript module of a template. Throws a
+ * `ConditionalStringSyntaxError` if the template is not valid.
+ * @example generateModule("Hi /*=name* /") // "// Generated by conditional-string. ..."
+ */
+export function generateModule(
+    template: string,
+    options: GenerateOptions = {},
+): string {
+    const {
+        syntax = "c",
+        importFrom = "@kuindji/conditional-string",
+        source,
+    } = options;
+    parseTemplate(template, syntax);
+
+    const imports = [
+        syntax === "c" ? "conditionalString" : "createConditionalString",
+        "type ConditionalStringResult",
+        "type RenderOptions",
+        "type TemplateData",
+    ];
+    const syntaxArgument = syntax === "c" ? "" : ", typeof syntax";
+
+    return [
+        `// Generated by conditional-string${
+            source === undefined ? "" : ` from ${source}`
+        }. Do not edit.`,
+        "",
+        "import {",
+        ...imports.map((name) => `    ${name},`),
+        `} from ${JSON.stringify(importFrom)};`,
+        "",
+        ...(syntax === "c" ? [] : [
+            `const syntax = ${printSyntax(syntax)};`,
+            "const conditionalString = createConditionalString({ syntax });",
+            "",
+        ]),
+        `export const template = ${JSON.stringify(template)};`,
+        "",
+        "/**",
+        " * The data the template requires.",
+        " */",
+        `export type Data = TemplateData<typeof template${syntaxArgument}>;`,
+        "",
+        "/**",
+        " * Render the template.",
+        " */",
+        "export function render<RenderData extends Record<string, unknown>>(",
+        "    data: RenderData & Data,",
+        "    options?: RenderOptions,",
+        "): ConditionalStringResult<typeof template, RenderData"
+        + `${syntaxArgument}> {`,
+        "    return conditionalString<typeof template, RenderData>(",
+        "        template,",
+        "        data,",
+        "        options,",
+        "    );",
+        "}",
+        "",
+    ].join("\n");
+}
+
+/**
+ * Write a syntax profile as a constant expression of its literal type.
+ */
+function printSyntax(syntax: SyntaxProfile): string {
+    return typeof syntax === "string"
+        ? JSON.stringify(syntax)
+        : `{ open: ${JSON.stringify(syntax.open)}, close: ${
+            JSON.stringify(syntax.close)
+        } } as const`;
+}
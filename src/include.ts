@@ -0,0 +1,86 @@
+/**
+ * Named partials: `/*include:name* /` inserts a template registered with
+ * `conditionalString.withPartials({ name: "..." })`.
+ *
+ * A partial is a template of its own, written in the same syntax profile:
+ * its blocks must be closed within it, and its markers are evaluated
+ * against the same data as the template that includes it (inside an each
+ * block, the alias of the block is bound in the partial too). A partial may
+ * include other partials, but not itself, directly or through others.
+ *
+ * The parser inserts the parsed nodes of a partial in place of the marker.
+ * At the type level the normalized text of the partial is inserted instead,
+ * before any other processing.
+ */
+
+import type { TemplateSyntaxError } from "./errors.js";
+import type {
+    NormalizeTemplate,
+    TrimEnd,
+    TrimStart,
+    ValidateTemplate,
+} from "./parser.js";
+import type { SyntaxProfile } from "./syntax.js";
+
+/**
+ * Partials by name.
+ */
+export type TemplatePartials = Readonly<Record<string, string>>;
+
+/**
+ * No partials registered.
+ */
+export type NoPartials = Record<never, string>;
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * The expanded text of a partial, or the syntax error of including it.
+ */
+type IncludePartial<
+    Name extends string,
+    Partials extends TemplatePartials,
+    Syntax extends SyntaxProfile,
+    Including extends string[],
+> = Name extends Including[number]
+    ? TemplateSyntaxError<`Recursive include of "${Name}"`>
+    : Name extends keyof Partials
+        ? NormalizeTemplate<Partials[Name], Syntax> extends
+            infer Partial extends string
+            ? [ ValidateTemplate<Partial> ] extends [ never ]
+                ? ExpandIncludes<Partial, Partials, Syntax, [ ...Including, Name ]>
+            : ValidateTemplate<Partial>
+        : never
+    : TemplateSyntaxError<`Unknown partial "${Name}"`>;
+
+/**
+ * Replace the `/*include:name* /` markers of a normalized template with
+ * their normalized partials, recursively. Returns a `TemplateSyntaxError`
+ * if a partial is unknown, invalid or includes itself.
+ * @example ExpandIncludes<"a/*include:b* /", { b: "/*=x* /" }, "c"> // "a/*=x* /"
+ */
+export type ExpandIncludes<
+    Template extends string,
+    Partials extends TemplatePartials,
+    Syntax extends SyntaxProfile,
+    Including extends string[] = [],
+    Result extends string = "",
+> = Template extends `${infer Before}/*include:${infer Spec}*/${infer Rest}`
+    ? IncludePartial<
+        TrimEnd<TrimStart<Spec>>,
+        Partials,
+        Syntax,
+        Including
+    > extends infer Included
+        ? Included extends string ? ExpandIncludes<
+                Rest,
+                Partials,
+                Syntax,
+                Including,
+                `${Result}${Before}${Included}`
+            >
+        : Included
+    : never
+    : `${Result}${Template}`;
@@ -1 +1,73 @@
-export { conditionalString, default, type ConditionalStringResult } from "./conditionalString.js";
+export {
+    parse,
+    type ParseOptions,
+    type ParseTemplate,
+    print,
+} from "./ast.js";
+export type {
+    AndNode,
+    CallNode,
+    ComparisonNode,
+    ConditionNode,
+    InNode,
+    InterpolationNode,
+    LiteralNode,
+    NotNode,
+    OrNode,
+    PathNode,
+} from "./condition.js";
+export {
+    type CompiledTemplate,
+    type ConditionalPartialResult,
+    type ConditionalSqlResult,
+    conditionalString,
+    type ConditionalStringFn,
+    type ConditionalStringOptions,
+    type ConditionalStringResult,
+    createConditionalString,
+    type DefaultMaxIndeterminate,
+    default,
+} from "./conditionalString.js";
+export type { TemplateData } from "./data.js";
+export {
+    ConditionalStringDataError,
+    ConditionalStringSyntaxError,
+    type TemplateSyntaxError,
+} from "./errors.js";
+export type { ExplainedBlock, TemplateExplanation } from "./explain.js";
+export { generateModule, type GenerateOptions } from "./generate.js";
+export type { NoPartials, TemplatePartials } from "./include.js";
+export type {
+    BranchNode,
+    ClauseNode,
+    EachNode,
+    IfNode,
+    IncludeNode,
+    ListNode,
+    ParameterNode,
+    SourceSpan,
+    TemplateNode,
+    TextNode,
+    ValueNode,
+} from "./parser.js";
+export type {
+    ConditionPredicate,
+    ConditionPredicates,
+    NoPredicates,
+} from "./predicate.js";
+export type { RenderOptions } from "./render.js";
+export type {
+    PlaceholderStyle,
+    SqlOptions,
+    SqlQuery,
+    SqlValues,
+} from "./sql.js";
+export type { Delimiters, SyntaxProfile } from "./syntax.js";
+export {
+    type ConditionalIfResult,
+    type ConditionalTag,
+    type ConditionalTagValue,
+    type ConditionalUnlessResult,
+    cs,
+} from "./tag.js";
+export type { TruthinessPreset } from "./truthiness.js";
@@ -0,0 +1,943 @@
+/**
+ * Template parser: turns a template into a tree of text, blocks and markers.
+ *
+ * The tree is built in a single scan over the markers of the template, so a
+ * template can be parsed once and rendered any number of times:
+ * - `/*if:a* /.../*elif:b* /.../*else* /.../*endif* /` becomes an `IfNode`
+ * - `/*each:items as item* /.../*empty* /.../*endeach* /` becomes an `EachNode`
+ * - `/*where* /.../*endwhere* /` and `/*having* /.../*endhaving* /` become a
+ *   `ClauseNode`, `/*list:, * /.../*endlist* /` becomes a `ListNode`
+ * - `/*=expr* /` and `/*:expr* /` become `ValueNode` and `ParameterNode`
+ * - `/*include:name* /` becomes an `IncludeNode` with the parsed partial
+ * - everything else, including other comments, is text; so are
+ *   `/*raw* /.../*endraw* /` regions and escaped markers (`/*\if:a* /`),
+ *   which stand for their literal text
+ *
+ * A `-` at the start or end of a directive (`/*-if:a* /`, `/*endif-* /`)
+ * removes the whitespace, line breaks included, before or after the marker.
+ * That whitespace is part of the span of the marker, so the spans of the
+ * nodes cover the whole template.
+ */
+
+import {
+    type ConditionNode,
+    type InterpolationNode,
+    type ParseCondition,
+    parseCondition,
+    type ParseInterpolation,
+    parseInterpolation,
+    type Whitespace,
+} from "./condition.js";
+import { type ParseEachSpec } from "./each.js";
+import {
+    ConditionalStringSyntaxError,
+    type TemplateSyntaxError,
+} from "./errors.js";
+import type { TemplatePartials } from "./include.js";
+import type { EscapeRawRegions } from "./raw.js";
+import {
+    findMarkers,
+    leadingWhitespacePattern,
+    type SyntaxProfile,
+    type ToCStyleMarkers,
+    trailingWhitespacePattern,
+} from "./syntax.js";
+
+/**
+ * Where a part of the template is, and its text as written. The span of a
+ * marker includes the whitespace its trim flags remove.
+ */
+export interface SourceSpan {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Literal text of the template.
+ */
+export interface TextNode<Value extends string = string> {
+    type: "text";
+    value: Value;
+    span: SourceSpan;
+}
+
+/**
+ * One branch of a conditional block. The `else` branch has no condition.
+ * `marker` is its marker written C-style without trim flags, `offset` is
+ * where the marker starts in the template and `span` is the marker as
+ * written; the same goes for the other nodes with markers.
+ */
+export interface BranchNode<
+    Condition extends ConditionNode | null = ConditionNode | null,
+    Children extends TemplateNode[] = TemplateNode[],
+> {
+    condition: Condition;
+    children: Children;
+    marker: string;
+    offset: number;
+    span: SourceSpan;
+}
+
+/**
+ * A conditional block: `/*if:...* /` with its `elif` and `else` branches.
+ * `closingSpan` is its `/*endif* /` marker as written; the same goes for
+ * the other blocks and their closing markers.
+ */
+export interface IfNode<Branches extends BranchNode[] = BranchNode[]> {
+    type: "if";
+    branches: Branches;
+    closingSpan: SourceSpan;
+}
+
+/**
+ * A repetition block: `/*each:path as alias sep="..."* /`.
+ * `optional` is true if the path ends with `?`, which is not part of `path`.
+ * `empty` and `emptySpan` are `null` if the block has no `/*empty* /`
+ * branch.
+ */
+export interface EachNode<
+    Path extends string = string,
+    Optional extends boolean = boolean,
+    Alias extends string = string,
+    Separator extends string = string,
+    Body extends TemplateNode[] = TemplateNode[],
+    Empty extends TemplateNode[] | null = TemplateNode[] | null,
+> {
+    type: "each";
+    path: Path;
+    optional: Optional;
+    alias: Alias;
+    separator: Separator;
+    body: Body;
+    empty: Empty;
+    marker: string;
+    offset: number;
+    span: SourceSpan;
+    emptySpan: SourceSpan | null;
+    closingSpan: SourceSpan;
+}
+
+/**
+ * An SQL clause block: `/*where* /` or `/*having* /`.
+ */
+export interface ClauseNode<
+    Type extends "where" | "having" = "where" | "having",
+    Children extends TemplateNode[] = TemplateNode[],
+> {
+    type: Type;
+    children: Children;
+    marker: string;
+    offset: number;
+    span: SourceSpan;
+    closingSpan: SourceSpan;
+}
+
+/**
+ * A list block: `/*list:separator* /`. `separator` is the text after
+ * `list:`, whitespace included.
+ */
+export interface ListNode<
+    Separator extends string = string,
+    Children extends TemplateNode[] = TemplateNode[],
+> {
+    type: "list";
+    separator: Separator;
+    children: Children;
+    marker: string;
+    offset: number;
+    span: SourceSpan;
+    closingSpan: SourceSpan;
+}
+
+/**
+ * An included partial: `/*include:name* /`. `template` is the text of the
+ * partial, which the offsets and spans of its nodes refer to.
+ */
+export interface IncludeNode<
+    Name extends string = string,
+    Children extends TemplateNode[] = TemplateNode[],
+> {
+    type: "include";
+    name: Name;
+    template: string;
+    children: Children;
+    marker: string;
+    offset: number;
+    span: SourceSpan;
+}
+
+/**
+ * An interpolation: `/*=expr* /`.
+ */
+export interface ValueNode<
+    Expression extends InterpolationNode = InterpolationNode,
+> {
+    type: "value";
+    expression: Expression;
+    marker: string;
+    offset: number;
+    span: SourceSpan;
+}
+
+/**
+ * A bound parameter: `/*:expr* /`. Rendered as its marker outside of SQL
+ * mode.
+ */
+export interface ParameterNode<
+    Expression extends InterpolationNode = InterpolationNode,
+> {
+    type: "parameter";
+    expression: Expression;
+    marker: string;
+    offset: number;
+    span: SourceSpan;
+}
+
+export type TemplateNode =
+    | TextNode
+    | IfNode
+    | EachNode
+    | ClauseNode
+    | ListNode
+    | IncludeNode
+    | ValueNode
+    | ParameterNode;
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+type LowercaseLetter =
+    | "a"
+    | "b"
+    | "c"
+    | "d"
+    | "e"
+    | "f"
+    | "g"
+    | "h"
+    | "i"
+    | "j"
+    | "k"
+    | "l"
+    | "m"
+    | "n"
+    | "o"
+    | "p"
+    | "q"
+    | "r"
+    | "s"
+    | "t"
+    | "u"
+    | "v"
+    | "w"
+    | "x"
+    | "y"
+    | "z";
+
+/**
+ * Check if a string is a non-empty run of lowercase letters.
+ */
+type IsWord<S extends string> = S extends `${LowercaseLetter}${infer Rest}`
+    ? Rest extends "" ? true : IsWord<Rest>
+    : false;
+
+/**
+ * A block that is not closed yet: its kind (`else` and `empty` once the
+ * block reached that branch), its opening marker and the alias of an each
+ * block.
+ */
+type OpenMarker = [
+    kind: "if" | "else" | "each" | "empty" | "where" | "having" | "list",
+    marker: string,
+    alias: string,
+];
+
+/**
+ * Check the condition or value expression of a marker.
+ * Returns the stack of open blocks if it is valid.
+ */
+type CheckExpression<
+    Parsed,
+    Expr extends string,
+    Stack extends OpenMarker[],
+> = [ Parsed ] extends [ never ]
+    ? TemplateSyntaxError<`Invalid condition "${Expr}"`>
+    : Stack;
+
+/**
+ * Check an each block marker and open the block.
+ */
+type CheckEach<
+    Marker extends string,
+    Spec extends string,
+    Stack extends OpenMarker[],
+> = ParseEachSpec<Spec> extends [ string, infer Alias extends string, string ]
+    ? Alias extends Stack[number][2]
+        ? TemplateSyntaxError<
+            `Each block "/*${Marker}*/" reuses alias "${Alias}" of an enclosing block`
+        >
+    : [ ...Stack, [ "each", `/*${Marker}*/`, Alias ] ]
+    : TemplateSyntaxError<`Invalid each block "/*${Marker}*/"`>;
+
+/**
+ * Check one marker (the text between `/*` and `* /`) against the stack of
+ * open blocks. Returns the new stack, or a `TemplateSyntaxError`.
+ */
+type CheckMarker<
+    Marker extends string,
+    Stack extends OpenMarker[],
+> = Marker extends `if:${infer Expr}` ? CheckExpression<
+        ParseCondition<Expr>,
+        Expr,
+        [ ...Stack, [ "if", `/*${Marker}*/`, "" ] ]
+    >
+    : Marker extends `elif:${infer Expr}`
+        ? Stack extends [ ...OpenMarker[], [ "if", string, string ] ]
+            ? CheckExpression<ParseCondition<Expr>, Expr, Stack>
+        : TemplateSyntaxError<`Unexpected "/*${Marker}*/"`>
+    : Marker extends `${"=" | ":"}${infer Expr}`
+        ? CheckExpression<ParseInterpolation<Expr>, Expr, Stack>
+    : Marker extends `each:${infer Spec}` ? CheckEach<Marker, Spec, Stack>
+    // Partials are checked when they are included
+    : Marker extends `include:${string}` ? Stack
+    : Marker extends "else" ? Stack extends [
+            ...infer Rest extends OpenMarker[],
+            [ "if", infer Open extends string, string ],
+        ] ? [ ...Rest, [ "else", Open, "" ] ]
+        : TemplateSyntaxError<`Unexpected "/*${Marker}*/"`>
+    : Marker extends "empty" ? Stack extends [
+            ...infer Rest extends OpenMarker[],
+            [ "each", infer Open extends string, infer Alias extends string ],
+        ] ? [ ...Rest, [ "empty", Open, Alias ] ]
+        : TemplateSyntaxError<`Unexpected "/*${Marker}*/"`>
+    : Marker extends "endif" ? Stack extends [
+            ...infer Rest extends OpenMarker[],
+            [ "if" | "else", string, string ],
+        ] ? Rest
+        : TemplateSyntaxError<`Unexpected "/*${Marker}*/"`>
+    : Marker extends "endeach" ? Stack extends [
+            ...infer Rest extends OpenMarker[],
+            [ "each" | "empty", string, string ],
+        ] ? Rest
+        : TemplateSyntaxError<`Unexpected "/*${Marker}*/"`>
+    : Marker extends "where" | "having"
+        ? [ ...Stack, [ Marker, `/*${Marker}*/`, "" ] ]
+    : Marker extends `list:${infer Separator}`
+        ? TrimEnd<TrimStart<Separator>> extends ""
+            ? TemplateSyntaxError<`Invalid list block "/*${Marker}*/"`>
+        : [ ...Stack, [ "list", `/*${Marker}*/`, "" ] ]
+    : Marker extends "raw" ? TemplateSyntaxError<`Unclosed raw block "/*raw*/"`>
+    : Marker extends "endraw"
+        ? TemplateSyntaxError<`Unexpected "/*${Marker}*/"`>
+    : Marker extends `end${infer Kind extends "where" | "having" | "list"}`
+        ? Stack extends [
+            ...infer Rest extends OpenMarker[],
+            [ Kind, string, string ],
+        ] ? Rest
+        : TemplateSyntaxError<`Unexpected "/*${Marker}*/"`>
+    : IsDirective<Marker> extends true
+        ? TemplateSyntaxError<`Unknown directive "/*${Marker}*/"`>
+    : Stack;
+
+/**
+ * Validate the markers of a literal template.
+ * Returns `never` if the template is valid, a `TemplateSyntaxError` with
+ * the same reason as the runtime error otherwise.
+ * @example ValidateTemplate<"/*if:a* /A"> // TemplateSyntaxError<"Unclosed if block \"/*if:a* /\"">
+ */
+export type ValidateTemplate<
+    Template extends string,
+    Stack extends OpenMarker[] = [],
+> = Template extends `${string}/*${infer Marker}*/${infer Rest}`
+    ? CheckMarker<Marker, Stack> extends infer Next
+        ? Next extends OpenMarker[] ? ValidateTemplate<Rest, Next>
+        : Next
+    : never
+    : Stack extends [
+        ...OpenMarker[],
+        [ infer Kind, infer Open extends string, string ],
+    ] ? TemplateSyntaxError<
+            `Unclosed ${Kind extends "if" | "else" ? "if"
+                : Kind extends "each" | "empty" ? "each"
+                : Kind & string} block "${Open}"`
+        >
+    : never;
+
+/**
+ * The words of directives, with or without an expression.
+ */
+type DirectiveName =
+    | "if"
+    | "elif"
+    | "else"
+    | "endif"
+    | "each"
+    | "empty"
+    | "endeach"
+    | "where"
+    | "endwhere"
+    | "having"
+    | "endhaving"
+    | "list"
+    | "endlist"
+    | "include"
+    | "endraw";
+
+/**
+ * Check if two words differ by at most one letter added, left out, or
+ * swapped with the next one.
+ */
+type IsOneEdit<A extends string, B extends string> = A extends
+    `${infer First}${infer RestA}`
+    ? B extends `${First}${infer RestB}` ? IsOneEdit<RestA, RestB>
+    : B extends `${infer Other}${infer RestB}`
+        ? RestA extends B ? true
+        : A extends RestB ? true
+        : RestA extends `${Other}${infer Tail}`
+            ? RestB extends `${First}${Tail}` ? true : false
+        : false
+    : RestA extends "" ? true
+    : false
+    : B extends `${string}${infer RestB}` ? RestB extends "" ? true : false
+    : true;
+
+/**
+ * Check a word against each directive name that starts with `First`.
+ */
+type IsTypoOf<
+    Word extends string,
+    First extends string,
+    Name extends DirectiveName = DirectiveName,
+> = Name extends `${First}${string}` ? IsOneEdit<Word, Name> : never;
+
+/**
+ * Check if a word is a directive name, or a typo of one: at least three
+ * letters, the same first letter and one edit away.
+ */
+type IsDirectiveWord<Word extends string> = IsWord<Word> extends false ? false
+    : Word extends DirectiveName ? true
+    // At least three letters: two and a rest
+    : Word extends `${infer First}${string}${infer Rest}`
+        ? Rest extends "" ? false
+        : true extends IsTypoOf<Word, First> ? true
+        : false
+    : false;
+
+/**
+ * Check if a marker without its trim flags is a directive: an expression
+ * (`=`, `:`), or a directive word (`if:...`, `endif`) or a typo of one
+ * (`iff:...`, `endfi`). Other comments take no trim flags.
+ */
+export type IsDirective<Marker extends string> = Marker extends
+    `${"=" | ":"}${string}` ? true
+    : Marker extends `${infer Name}:${string}` ? IsDirectiveWord<Name>
+    : IsDirectiveWord<Marker>;
+
+/**
+ * Split the trim flags off a marker: `-if:a-` gives `["if:a", true, true]`.
+ */
+export type SplitTrimFlags<Marker extends string> = (
+    Marker extends `-${infer Rest}` ? [ Rest, true ] : [ Marker, false ]
+) extends [ infer Body extends string, infer Before extends boolean ] ? (
+        Body extends `${infer Rest}-` ? [ Rest, true ] : [ Body, false ]
+    ) extends [ infer Directive extends string, infer After extends boolean ]
+        ? IsDirective<Directive> extends true ? [ Directive, Before, After ]
+        : [ Marker, false, false ]
+    : never
+    : never;
+
+export type TrimStart<S extends string> = S extends `${Whitespace}${infer Rest}`
+    ? TrimStart<Rest>
+    : S;
+
+export type TrimEnd<S extends string> = S extends `${infer Rest}${Whitespace}`
+    ? TrimEnd<Rest>
+    : S;
+
+/**
+ * Remove the whitespace next to trim markers, and their `-` flags.
+ */
+type RemoveTrimmedWhitespace<
+    Template extends string,
+    Result extends string = "",
+    TrimNext extends boolean = false,
+> = Template extends `${infer Before}/*${infer Marker}*/${infer After}`
+    // A raw region is left as it is
+    ? Marker extends "raw" ? After extends
+            `${infer Content}/*endraw*/${infer Rest}` ? RemoveTrimmedWhitespace<
+                Rest,
+                `${Result}${TrimNext extends true ? TrimStart<Before>
+                    : Before}/*raw*/${Content}/*endraw*/`
+            >
+        : `${Result}${Before}/*raw*/${After}`
+    : SplitTrimFlags<Marker> extends [
+        infer Directive extends string,
+        infer TrimBefore extends boolean,
+        infer TrimAfter extends boolean,
+    ] ? RemoveTrimmedWhitespace<
+            After,
+            `${Result}${TrimBefore extends true ? TrimEnd<
+                    TrimNext extends true ? TrimStart<Before> : Before
+                >
+                : TrimNext extends true ? TrimStart<Before>
+                : Before}/*${Directive}*/`,
+            TrimAfter
+        >
+    : never
+    : `${Result}${TrimNext extends true ? TrimStart<Template> : Template}`;
+
+/**
+ * Apply the trim markers of a literal template: `/*-if:a* /` removes the
+ * whitespace before the marker, `/*endif-* /` the whitespace after it.
+ * The result has the same markers without `-`.
+ * @example ApplyTrimMarkers<"A /*-if:b* /B/*endif* /"> // "A/*if:b* /B/*endif* /"
+ */
+export type ApplyTrimMarkers<Template extends string> = Template extends
+    `${string}/*-${string}` | `${string}-*/${string}`
+    ? RemoveTrimmedWhitespace<Template>
+    : Template;
+
+/**
+ * A literal template as the other type-level passes read it: markers of a
+ * syntax profile converted to C-style markers, trim markers applied and raw
+ * regions replaced with their escaped text.
+ */
+export type NormalizeTemplate<
+    Template extends string,
+    Syntax extends SyntaxProfile = "c",
+> = EscapeRawRegions<ApplyTrimMarkers<ToCStyleMarkers<Template, Syntax>>>;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * Matches the text of a marker: a directive with an expression (`if:`, `=`,
+ * ...), or a bare word (`endif`, ...), with optional `-` trim flags on
+ * either side. Words that are not directives are text.
+ */
+const markerPattern = /^(-)?(?:([a-z]+:|[=:])([\s\S]*?)|([a-z]+))(-)?$/;
+
+/**
+ * The words of directives, with or without an expression.
+ */
+const directiveNames = [
+    "if",
+    "elif",
+    "else",
+    "endif",
+    "each",
+    "empty",
+    "endeach",
+    "where",
+    "endwhere",
+    "having",
+    "endhaving",
+    "list",
+    "endlist",
+    "include",
+    "endraw",
+];
+
+/**
+ * Check if two words differ by at most one letter added, left out, or
+ * swapped with the next one.
+ */
+function isOneEdit(a: string, b: string): boolean {
+    let index = 0;
+    while (index < a.length && a[index] === b[index]) {
+        index++;
+    }
+    if (index === a.length || index === b.length) {
+        return Math.abs(a.length - b.length) <= 1;
+    }
+    return a.slice(index + 1) === b.slice(index)
+        || a.slice(index) === b.slice(index + 1)
+        || (a[index] === b[index + 1]
+            && a[index + 1] === b[index]
+            && a.slice(index + 2) === b.slice(index + 2));
+}
+
+/**
+ * Check if a word is a directive name, or a typo of one: at least three
+ * letters, the same first letter and one edit away. Other words are
+ * ordinary comments (`/*todo: fix* /`, `/*end* /`).
+ */
+function isDirectiveWord(word: string): boolean {
+    return directiveNames.some((name) =>
+        name === word
+        || (word.length >= 3 && word[0] === name[0] && isOneEdit(word, name))
+    );
+}
+
+/**
+ * Match the text of a marker if it is a directive.
+ */
+function matchDirective(marker: string): RegExpExecArray | null {
+    const match = markerPattern.exec(marker);
+    if (match === null) {
+        return null;
+    }
+    const [ , , kind, , keyword ] = match;
+    return kind === "=" || kind === ":"
+            || isDirectiveWord(keyword ?? kind.slice(0, -1))
+        ? match
+        : null;
+}
+
+/**
+ * Check if the text of a comment is a directive, with or without trim
+ * flags.
+ * @example isDirective("-endif") // true
+ */
+export function isDirective(marker: string): boolean {
+    return matchDirective(marker) !== null;
+}
+
+const eachSpecPattern =
+    /^\s*([\w.]+)(\?)?\s+as\s+(\w+)(?:\s+sep=(?:"([^"]*)"|'([^']*)'))?\s*$/;
+
+/**
+ * A block that is not closed yet, and the list new nodes are added to.
+ */
+interface OpenBlock {
+    node: IfNode | EachNode | ClauseNode | ListNode;
+    marker: string;
+    offset: number;
+    children: TemplateNode[];
+}
+
+/**
+ * Parse a template into a list of nodes, reading markers in the given
+ * syntax profile. Throws a `ConditionalStringSyntaxError` if a block is not
+ * closed, a marker is out of place, an expression is invalid, a directive
+ * is unknown or a partial cannot be included. `including` lists the
+ * partials being included, innermost last.
+ * @example parseTemplate("a/*if:b* /c/*endif* /") // [{ type: "text", value: "a", ... }, { type: "if", ... }]
+ */
+export function parseTemplate(
+    template: string,
+    syntax: SyntaxProfile = "c",
+    partials: TemplatePartials = {},
+    including: readonly string[] = [],
+): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: OpenBlock[] = [];
+    let children = root;
+    let position = 0;
+    let trimNext = false;
+    // The span of the last directive, which takes the whitespace it trims
+    let lastSpan: SourceSpan | undefined;
+    // Text since the last directive with raw regions and escaped markers,
+    // which is pushed with the text up to the next directive
+    let pending: { value: string; start: number } | undefined;
+
+    const pushText = (text: string, start: number, end: number) => {
+        if (text !== "") {
+            children.push({
+                type: "text",
+                value: text,
+                span: { text: template.slice(start, end), start, end },
+            });
+        }
+    };
+    const trimLeading = (text: string): string => {
+        const trimmed = text.replace(leadingWhitespacePattern, "");
+        if (lastSpan !== undefined) {
+            lastSpan.end += text.length - trimmed.length;
+            lastSpan.text = template.slice(lastSpan.start, lastSpan.end);
+        }
+        return trimmed;
+    };
+
+    for (const found of findMarkers(template, syntax)) {
+        if (found.literal !== undefined) {
+            let text = template.slice(position, found.start);
+            if (trimNext) {
+                text = trimLeading(text);
+                trimNext = false;
+            }
+            pending ??= { value: "", start: found.start - text.length };
+            pending.value += text + found.literal;
+            position = found.end;
+            continue;
+        }
+
+        const match = matchDirective(found.marker);
+        if (match === null) {
+            // An ordinary comment
+            continue;
+        }
+
+        const [ , trimBefore, kind, expression, keyword, trimAfter ] = match;
+        const { offset } = found;
+        // The C-style marker without its trim flags, as shown in errors
+        const marker = kind === undefined
+            ? `/*${keyword}*/`
+            : `/*${kind}${expression}*/`;
+        const open = stack.at(-1);
+        const fail = (reason: string) =>
+            new ConditionalStringSyntaxError(reason, template, offset);
+        const unexpected = () => fail(`Unexpected "${marker}"`);
+
+        let text = template.slice(position, found.start);
+        if (trimNext) {
+            text = trimLeading(text);
+        }
+        const textStart = found.start - text.length;
+        if (trimBefore !== undefined) {
+            text = text.replace(trailingWhitespacePattern, "");
+        }
+        const textEnd = textStart + text.length;
+        pushText(
+            (pending?.value ?? "") + text,
+            pending?.start ?? textStart,
+            textEnd,
+        );
+        // A raw region left empty belongs to the marker after it
+        const spanStart = pending?.value === "" && text === ""
+            ? pending.start
+            : textEnd;
+        pending = undefined;
+        const span: SourceSpan = {
+            text: template.slice(spanStart, found.end),
+            start: spanStart,
+            end: found.end,
+        };
+        lastSpan = span;
+        position = found.end;
+        trimNext = trimAfter !== undefined;
+
+        const parse = <Node>(parser: (source: string) => Node): Node => {
+            try {
+                return parser(expression);
+            }
+            catch (error) {
+                throw new ConditionalStringSyntaxError(
+                    (error as Error).message,
+                    template,
+                    found.expressionOffset,
+                );
+            }
+        };
+
+        switch (kind ?? keyword) {
+            case "if:": {
+                const node: IfNode = {
+                    type: "if",
+                    branches: [ {
+                        condition: parse(parseCondition),
+                        children: [],
+                        marker,
+                        offset,
+                        span,
+                    } ],
+                    // Set when the block is closed
+                    closingSpan: span,
+                };
+                children.push(node);
+                children = node.branches[0].children;
+                stack.push({ node, marker, offset, children });
+                break;
+            }
+            case "elif:":
+            case "else": {
+                if (open?.node.type !== "if" || hasElseBranch(open.node)) {
+                    throw unexpected();
+                }
+                const branch: BranchNode = {
+                    condition: kind === undefined
+                        ? null
+                        : parse(parseCondition),
+                    children: [],
+                    marker,
+                    offset,
+                    span,
+                };
+                open.node.branches.push(branch);
+                children = open.children = branch.children;
+                break;
+            }
+            case "endraw":
+                throw unexpected();
+            case "endif":
+            case "endeach":
+            case "endwhere":
+            case "endhaving":
+            case "endlist":
+                if (open?.node.type !== keyword.slice(3)) {
+                    throw unexpected();
+                }
+                open.node.closingSpan = span;
+                stack.pop();
+                children = stack.at(-1)?.children ?? root;
+                break;
+            case "each:": {
+                const node = parseEachSpec(
+                    expression,
+                    marker,
+                    offset,
+                    span,
+                    stack,
+                    fail,
+                );
+                children.push(node);
+                children = node.body;
+                stack.push({ node, marker, offset, children });
+                break;
+            }
+            case "empty":
+                if (open?.node.type !== "each" || open.node.empty !== null) {
+                    throw unexpected();
+                }
+                children = open.children = open.node.empty = [];
+                open.node.emptySpan = span;
+                break;
+            case "where":
+            case "having":
+            case "list:": {
+                if (
+                    kind === "list:"
+                    && expression.replace(leadingWhitespacePattern, "") === ""
+                ) {
+                    throw fail(`Invalid list block "${marker}"`);
+                }
+                const node: ClauseNode | ListNode = kind === "list:"
+                    ? {
+                        type: "list",
+                        separator: expression,
+                        children: [],
+                        marker,
+                        offset,
+                        span,
+                        closingSpan: span,
+                    }
+                    : {
+                        type: keyword as ClauseNode["type"],
+                        children: [],
+                        marker,
+                        offset,
+                        span,
+                        closingSpan: span,
+                    };
+                children.push(node);
+                children = node.children;
+                stack.push({ node, marker, offset, children });
+                break;
+            }
+            case "include:": {
+                const name = expression
+                    .replace(leadingWhitespacePattern, "")
+                    .replace(trailingWhitespacePattern, "");
+                if (including.includes(name)) {
+                    throw fail(`Recursive include of "${name}"`);
+                }
+                if (!Object.hasOwn(partials, name)) {
+                    throw fail(`Unknown partial "${name}"`);
+                }
+                const partial = partials[name];
+                children.push({
+                    type: "include",
+                    name,
+                    template: partial,
+                    children: parseTemplate(partial, syntax, partials, [
+                        ...including,
+                        name,
+                    ]),
+                    marker,
+                    offset,
+                    span,
+                });
+                break;
+            }
+            case "=":
+                children.push({
+                    type: "value",
+                    expression: parse(parseInterpolation),
+                    marker,
+                    offset,
+                    span,
+                });
+                break;
+            case ":":
+                children.push({
+                    type: "parameter",
+                    expression: parse(parseInterpolation),
+                    marker,
+                    offset,
+                    span,
+                });
+                break;
+            default:
+                throw fail(`Unknown directive "${marker}"`);
+        }
+    }
+
+    const rest = trimNext
+        ? trimLeading(template.slice(position))
+        : template.slice(position);
+    pushText(
+        (pending?.value ?? "") + rest,
+        pending?.start ?? template.length - rest.length,
+        template.length,
+    );
+
+    const unclosed = stack.at(-1);
+    if (unclosed !== undefined) {
+        throw new ConditionalStringSyntaxError(
+            `Unclosed ${unclosed.node.type} block "${unclosed.marker}"`,
+            template,
+            unclosed.offset,
+        );
+    }
+
+    return root;
+}
+
+function hasElseBranch(node: IfNode): boolean {
+    return node.branches.at(-1)?.condition === null;
+}
+
+/**
+ * Parse `path as alias sep="..."` into an each block without content.
+ */
+function parseEachSpec(
+    spec: string,
+    marker: string,
+    offset: number,
+    span: SourceSpan,
+    stack: OpenBlock[],
+    fail: (reason: string) => Error,
+): EachNode {
+    const match = eachSpecPattern.exec(spec);
+    if (match === null) {
+        throw fail(`Invalid each block "${marker}"`);
+    }
+
+    const [ , path, optional, alias, doubleQuoted, singleQuoted ] = match;
+    if (
+        stack.some(({ node }) => node.type === "each" && node.alias === alias)
+    ) {
+        throw fail(
+            `Each block "${marker}" reuses alias "${alias}" of an enclosing block`,
+        );
+    }
+
+    return {
+        type: "each",
+        path,
+        optional: optional !== undefined,
+        alias,
+        separator: doubleQuoted ?? singleQuoted ?? "",
+        body: [],
+        empty: null,
+        marker,
+        offset,
+        span,
+        emptySpan: null,
+        // Set when the block is closed
+        closingSpan: span,
+    };
+}
@@ -0,0 +1,635 @@
+/**
+ * Partial evaluation: resolve the conditions a template can already decide
+ * from part of its data, and keep the rest of the template for later.
+ *
+ * A path is known if it exists in the data, even with an `undefined` value.
+ * Paths of each block aliases are never known, since the items are not
+ * there yet. Compound conditions are simplified as far as the known paths
+ * allow: `a && b` with a truthy `a` becomes `b`, `a || b` with a truthy `a`
+ * resolves to true. Predicate calls are resolved if their argument is
+ * known.
+ *
+ * In a conditional block, branches whose condition is false are dropped, a
+ * branch whose condition is true becomes the `else` branch (or replaces the
+ * whole block if it is the first one left), and the others stay with their
+ * simplified conditions. Interpolations, parameters, each blocks and SQL
+ * clause blocks stay as they are, with their content processed the same
+ * way. Included partials are inserted.
+ *
+ * The result is a template written C-style, without trim flags. Its text
+ * is escaped where it would be read as a marker, so the text of raw
+ * regions and escaped markers stays literal (`/*\if:a* /`).
+ */
+
+import {
+    type AndNode,
+    type CallNode,
+    type ComparisonNode,
+    type ConditionNode,
+    evaluateConditionNode,
+    type EvalConditionNode,
+    getNestedValue,
+    type GetPath,
+    hasNestedValue,
+    type InNode,
+    type IsTruthy,
+    type LiteralNode,
+    type NotNode,
+    type OrNode,
+    type ParseCondition,
+    type PathNode,
+    printCondition,
+    type PrintCondition,
+    type ValueNode,
+} from "./condition.js";
+import type { ParseEachSpec } from "./each.js";
+import type { BranchNode, EachNode, IfNode, TemplateNode } from "./parser.js";
+import {
+    type ConditionPredicates,
+    findPredicate,
+    type IsPredicate,
+    type NoPredicates,
+} from "./predicate.js";
+import { escapeMarkers, type PrintComment } from "./raw.js";
+import { type TruthinessPreset, truthinessTests } from "./truthiness.js";
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * Check if a path exists in a data type. Returns `boolean` if the data type
+ * has arbitrary keys.
+ */
+type HasPath<T, Path extends string> = T extends object
+    ? string extends keyof T ? boolean
+    : Path extends `${infer Key}.${infer Rest}`
+        ? Key extends keyof T ? HasPath<T[Key], Rest> : false
+    : Path extends keyof T ? true
+    : false
+    : false;
+
+/**
+ * Check if the value of an operand is known: literals always are, paths if
+ * they exist in the data and don't start with an alias.
+ */
+type IsKnown<Node, Data, Aliases extends string> = Node extends
+    PathNode<infer Path>
+    ? Path extends Aliases | `${Aliases}.${string}` ? false
+    : HasPath<Data, Path>
+    : true;
+
+/**
+ * Resolve a comparison, `in` test or predicate call if all of its operands
+ * are known.
+ */
+type ResolveTest<
+    Node,
+    Known extends boolean[],
+    Data,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+> = Known extends true[]
+    ? EvalConditionNode<Node, Data, Predicates, Truthiness>
+    : Known extends [ false, ...boolean[] ] | [ boolean, false ] ? Node
+    : boolean;
+
+/**
+ * Resolve a parsed condition as far as the data type allows.
+ * Returns true, false, the remaining condition node, or boolean if a known
+ * value is indeterminate. Unchanged parts keep their node type.
+ */
+type ResolveNode<
+    Node,
+    Data,
+    Aliases extends string,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+> =
+    // A non-literal node (e.g. `ConditionNode` itself) can't be resolved
+    [ ConditionNode ] extends [ Node ] ? boolean
+        : Node extends PathNode<infer Path>
+            ? IsKnown<Node, Data, Aliases> extends infer Known
+                ? [ Known ] extends [ true ]
+                    ? IsTruthy<GetPath<Data, Path>, Truthiness>
+                : [ Known ] extends [ false ] ? Node
+                : boolean
+            : never
+        : Node extends LiteralNode<infer Value> ? IsTruthy<Value, Truthiness>
+        : Node extends ComparisonNode<infer _, infer Left, infer Right>
+            ? ResolveTest<
+                Node,
+                [ IsKnown<Left, Data, Aliases>, IsKnown<Right, Data, Aliases> ],
+                Data,
+                Predicates,
+                Truthiness
+            >
+        : Node extends InNode<infer Left> ? ResolveTest<
+                Node,
+                [ IsKnown<Left, Data, Aliases> ],
+                Data,
+                Predicates,
+                Truthiness
+            >
+        // Calls of unknown predicates stay for the render to report
+        : Node extends CallNode<infer Name, infer Argument>
+            ? IsPredicate<Name, Predicates> extends true ? ResolveTest<
+                    Node,
+                    [ IsKnown<Argument, Data, Aliases> ],
+                    Data,
+                    Predicates,
+                    Truthiness
+                >
+            : Node
+        : Node extends NotNode<infer Operand>
+            ? ResolveNode<
+                Operand,
+                Data,
+                Aliases,
+                Predicates,
+                Truthiness
+            > extends infer Resolved
+                ? [ Resolved ] extends [ true ] ? false
+                : [ Resolved ] extends [ false ] ? true
+                : [ Resolved ] extends [ boolean ] ? boolean
+                : IsSame<Resolved, Operand> extends true ? Node
+                : Resolved extends ConditionNode ? NotNode<Resolved>
+                : never
+            : never
+        : Node extends AndNode<infer Left, infer Right> ? ResolveJunction<
+                Node,
+                ResolveNode<Left, Data, Aliases, Predicates, Truthiness>,
+                ResolveNode<Right, Data, Aliases, Predicates, Truthiness>,
+                false
+            >
+        : Node extends OrNode<infer Left, infer Right> ? ResolveJunction<
+                Node,
+                ResolveNode<Left, Data, Aliases, Predicates, Truthiness>,
+                ResolveNode<Right, Data, Aliases, Predicates, Truthiness>,
+                true
+            >
+        : boolean;
+
+/**
+ * Combine the resolved sides of `&&` (`Absorbing` is false) or `||`
+ * (`Absorbing` is true).
+ */
+type ResolveJunction<
+    Node,
+    Left,
+    Right,
+    Absorbing extends boolean,
+> = [ Left ] extends [ Absorbing ] ? Absorbing
+    : [ Right ] extends [ Absorbing ] ? Absorbing
+    : [ Left ] extends [ boolean ] ? [ boolean ] extends [ Left ] ? boolean
+        : Right
+    : [ Right ] extends [ boolean ] ? [ boolean ] extends [ Right ] ? boolean
+        : Left
+    : Node extends AndNode<infer NodeLeft, infer NodeRight>
+        | OrNode<infer NodeLeft, infer NodeRight>
+        ? [ IsSame<Left, NodeLeft>, IsSame<Right, NodeRight> ] extends
+            [ true, true ] ? Node
+        : Left extends ConditionNode ? Right extends ConditionNode
+                ? Absorbing extends true ? OrNode<Left, Right>
+                : AndNode<Left, Right>
+            : never
+        : never
+    : never;
+
+type IsSame<Left, Right> = [ Left ] extends [ Right ]
+    ? [ Right ] extends [ Left ] ? true : false
+    : false;
+
+/**
+ * Resolve a condition expression. Returns true, false, boolean
+ * (indeterminate), or the expression left: as written if nothing changed,
+ * printed otherwise.
+ */
+type ResolveCondition<
+    Cond extends string,
+    Data,
+    Aliases extends string,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+> = ParseCondition<Cond> extends infer Node
+    ? ResolveNode<Node, Data, Aliases, Predicates, Truthiness> extends
+        infer Resolved
+        ? [ Resolved ] extends [ boolean ] ? Resolved
+        : IsSame<Resolved, Node> extends true ? Cond
+        : PrintCondition<Resolved>
+    : never
+    : never;
+
+/**
+ * State of an open block while walking a template:
+ * - `open`: in a branch of a block whose markers are kept
+ * - `last`: in the last branch kept, which became `/*else* /`
+ * - `inline`: in the first branch left, which holds and replaces the block
+ * - `dropOpen`, `dropClosed`: in a dropped branch, looking for one to keep,
+ *   with the markers of the block printed or not yet
+ * - `restOpen`, `restClosed`: skipping to the end of the block
+ * - `skip`: a block inside skipped text
+ * - `each`, `empty`: in the body (with an alias) or the empty branch of an
+ *   each block
+ */
+type BlockState =
+    | "open"
+    | "last"
+    | "inline"
+    | "dropOpen"
+    | "dropClosed"
+    | "restOpen"
+    | "restClosed"
+    | "skip"
+    | "each"
+    | "empty";
+
+/**
+ * The states in which the text of a block is printed.
+ */
+type PrintState = "open" | "last" | "inline" | "each" | "empty";
+
+/**
+ * An open block: its state and the alias of an each block body.
+ */
+type Block = [ state: BlockState, alias: string ];
+
+/**
+ * The aliases of the enclosing each block bodies.
+ */
+type Aliases<Blocks extends Block[]> = Extract<
+    Blocks[number],
+    [ "each", string ]
+>[1];
+
+/**
+ * Take a branch of a block whose markers are not printed yet (`/*if:* /`
+ * or an `/*elif:* /` after dropped branches). Returns `string` if the
+ * condition is indeterminate.
+ */
+type TakeFirstBranch<
+    Cond extends string,
+    Outer extends Block[],
+    Text extends string,
+    Data,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+> = ResolveCondition<
+    Cond,
+    Data,
+    Aliases<Outer>,
+    Predicates,
+    Truthiness
+> extends infer Resolved
+    ? [ Resolved ] extends [ false ] ? [ [ [ "dropClosed", "" ], ...Outer ], Text ]
+    : [ Resolved ] extends [ true ] ? [ [ [ "inline", "" ], ...Outer ], Text ]
+    : Resolved extends string
+        ? [ [ [ "open", "" ], ...Outer ], `${Text}/*if:${Resolved}*/` ]
+    : string
+    : never;
+
+/**
+ * Take an `/*elif:* /` branch of a block whose markers are printed.
+ */
+type TakeNextBranch<
+    Cond extends string,
+    Outer extends Block[],
+    Text extends string,
+    Data,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+> = ResolveCondition<
+    Cond,
+    Data,
+    Aliases<Outer>,
+    Predicates,
+    Truthiness
+> extends infer Resolved
+    ? [ Resolved ] extends [ false ] ? [ [ [ "dropOpen", "" ], ...Outer ], Text ]
+    : [ Resolved ] extends [ true ]
+        ? [ [ [ "last", "" ], ...Outer ], `${Text}/*else*/` ]
+    : Resolved extends string
+        ? [ [ [ "open", "" ], ...Outer ], `${Text}/*elif:${Resolved}*/` ]
+    : string
+    : never;
+
+/**
+ * The state after the taken branch of a block: its `/*endif* /` is still
+ * printed unless the branch was inlined.
+ */
+type RestState<State> = State extends "last" ? "restOpen" : "restClosed";
+
+/**
+ * Apply a marker while the text is printed.
+ */
+type PrintMarker<
+    Marker extends string,
+    Blocks extends Block[],
+    Text extends string,
+    Data,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+> = Blocks extends [ [ infer State, string ], ...infer Outer extends Block[] ]
+    ? Marker extends `elif:${infer Cond}` ? State extends "open"
+            ? TakeNextBranch<Cond, Outer, Text, Data, Predicates, Truthiness>
+        : [ [ [ RestState<State>, "" ], ...Outer ], Text ]
+    : Marker extends "else" ? State extends "open"
+            ? [ [ [ "last", "" ], ...Outer ], `${Text}/*else*/` ]
+        : [ [ [ RestState<State>, "" ], ...Outer ], Text ]
+    : Marker extends "endif"
+        ? [ Outer, State extends "inline" ? Text : `${Text}/*endif*/` ]
+    : Marker extends "empty"
+        ? [ [ [ "empty", "" ], ...Outer ], `${Text}/*empty*/` ]
+    : Marker extends "endeach" ? [ Outer, `${Text}/*endeach*/` ]
+    : PrintOtherMarker<Marker, Blocks, Text, Data, Predicates, Truthiness>
+    : PrintOtherMarker<Marker, Blocks, Text, Data, Predicates, Truthiness>;
+
+/**
+ * Apply a marker that opens a block or stays as it is.
+ */
+type PrintOtherMarker<
+    Marker extends string,
+    Blocks extends Block[],
+    Text extends string,
+    Data,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+> = Marker extends `if:${infer Cond}`
+    ? TakeFirstBranch<Cond, Blocks, Text, Data, Predicates, Truthiness>
+    : Marker extends `each:${infer Spec}` ? [
+            [ [ "each", ParseEachSpec<Spec>[1] ], ...Blocks ],
+            `${Text}/*${Marker}*/`,
+        ]
+    : [ Blocks, `${Text}${PrintComment<Marker>}` ];
+
+/**
+ * Apply a marker while the text is skipped.
+ */
+type SkipMarker<
+    Marker extends string,
+    Blocks extends Block[],
+    Text extends string,
+    Data,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+> = Blocks extends [ [ infer State, string ], ...infer Outer extends Block[] ]
+    ? Marker extends `if:${string}` | `each:${string}`
+        ? [ [ [ "skip", "" ], ...Blocks ], Text ]
+    : Marker extends "endif" | "endeach" ? [
+            Outer,
+            State extends "dropOpen" | "restOpen" ? `${Text}/*endif*/` : Text,
+        ]
+    : Marker extends `elif:${infer Cond}` ? State extends "dropOpen"
+            ? TakeNextBranch<Cond, Outer, Text, Data, Predicates, Truthiness>
+        : State extends "dropClosed"
+            ? TakeFirstBranch<Cond, Outer, Text, Data, Predicates, Truthiness>
+        : [ Blocks, Text ]
+    : Marker extends "else" ? State extends "dropOpen"
+            ? [ [ [ "last", "" ], ...Outer ], `${Text}/*else*/` ]
+        : State extends "dropClosed" ? [ [ [ "inline", "" ], ...Outer ], Text ]
+        : [ Blocks, Text ]
+    : [ Blocks, Text ]
+    : never;
+
+/**
+ * Partially process a normalized template in one tail-recursive walk.
+ * Returns `string` if a known value makes a condition indeterminate.
+ */
+type PartialTemplate<
+    Template extends string,
+    Data,
+    Predicates,
+    Truthiness extends TruthinessPreset,
+    Blocks extends Block[] = [],
+    Text extends string = "",
+> = Template extends `${infer Before}/*${infer Marker}*/${infer Rest}` ? (
+        Blocks extends [] | [ [ PrintState, string ], ...Block[] ] ? PrintMarker<
+                Marker,
+                Blocks,
+                `${Text}${Before}`,
+                Data,
+                Predicates,
+                Truthiness
+            >
+            : SkipMarker<Marker, Blocks, Text, Data, Predicates, Truthiness>
+    ) extends [ infer Next extends Block[], infer NextText extends string ]
+        ? PartialTemplate<Rest, Data, Predicates, Truthiness, Next, NextText>
+    : string
+    : `${Text}${Template}`;
+
+/**
+ * The template left after resolving the conditions known from `Data`, from
+ * a normalized (C-style, trimmed) template. Returns `string` if the
+ * template is not a literal or a known value makes a condition
+ * indeterminate.
+ */
+export type PartialResult<
+    Template extends string,
+    Data,
+    Predicates = NoPredicates,
+    Truthiness extends TruthinessPreset = "js",
+> = string extends Template ? string
+    : PartialTemplate<Template, Data, Predicates, Truthiness>;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * State of a partial evaluation: the known data, the registered predicates,
+ * the truthiness preset, and the aliases of the enclosing each blocks.
+ */
+interface PartialContext {
+    data: Record<string, unknown>;
+    predicates: ConditionPredicates;
+    truthiness: TruthinessPreset;
+    aliases: ReadonlySet<string>;
+}
+
+/**
+ * Print parsed template nodes back as a template, with the conditions
+ * known from the data resolved.
+ * @example partialTemplate(parseTemplate("/*if:a* /A/*elif:b* /B/*endif* /"), { a: false }) // "/*if:b* /B/*endif* /"
+ */
+export function partialTemplate(
+    nodes: TemplateNode[],
+    data: Record<string, unknown>,
+    predicates: ConditionPredicates = {},
+    truthiness: TruthinessPreset = "js",
+): string {
+    return printNodes(nodes, {
+        data,
+        predicates,
+        truthiness,
+        aliases: new Set(),
+    });
+}
+
+function printNodes(nodes: TemplateNode[], context: PartialContext): string {
+    let result = "";
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case "text":
+                result += escapeMarkers(node.value);
+                break;
+            case "if":
+                result += printIf(node, context);
+                break;
+            case "each":
+                result += printEach(node, context);
+                break;
+            case "where":
+            case "having":
+            case "list":
+                result += node.marker
+                    + printNodes(node.children, context)
+                    + `/*end${node.type}*/`;
+                break;
+            case "include":
+                result += printNodes(node.children, context);
+                break;
+            case "value":
+            case "parameter":
+                result += node.marker;
+                break;
+        }
+    }
+
+    return result;
+}
+
+function printIf(node: IfNode, context: PartialContext): string {
+    // Branches left, with their remaining conditions (`null` for `else`)
+    const kept: [ BranchNode, ConditionNode | null ][] = [];
+
+    for (const branch of node.branches) {
+        const resolved = branch.condition === null
+            ? true
+            : resolveCondition(branch.condition, context);
+        if (resolved === false) {
+            continue;
+        }
+        if (resolved === true) {
+            if (kept.length === 0) {
+                return printNodes(branch.children, context);
+            }
+            kept.push([ branch, null ]);
+            break;
+        }
+        kept.push([ branch, resolved ]);
+    }
+
+    if (kept.length === 0) {
+        return "";
+    }
+
+    return kept
+        .map(([ branch, condition ], index) => {
+            const keyword = index === 0 ? "if" : "elif";
+            const marker = condition === null
+                ? "/*else*/"
+                : condition === branch.condition
+                // Unchanged: the expression as written
+                ? `/*${keyword}:${
+                    branch.marker.slice(branch.marker.indexOf(":") + 1, -2)
+                }*/`
+                : `/*${keyword}:${printCondition(condition)}*/`;
+            return marker + printNodes(branch.children, context);
+        })
+        .join("") + "/*endif*/";
+}
+
+function printEach(node: EachNode, context: PartialContext): string {
+    const body = printNodes(node.body, {
+        ...context,
+        aliases: new Set(context.aliases).add(node.alias),
+    });
+    const empty = node.empty === null
+        ? ""
+        : `/*empty*/${printNodes(node.empty, context)}`;
+
+    return `${node.marker}${body}${empty}/*endeach*/`;
+}
+
+/**
+ * Resolve a condition as far as the data allows: true, false, or the
+ * condition left. Unchanged parts keep their node.
+ */
+function resolveCondition(
+    node: ConditionNode,
+    context: PartialContext,
+): boolean | ConditionNode {
+    switch (node.type) {
+        case "path":
+        case "literal":
+            return isKnown(node, context) ? evaluate(node, context) : node;
+        case "comparison":
+            return isKnown(node.left, context) && isKnown(node.right, context)
+                ? evaluate(node, context)
+                : node;
+        case "in":
+            return isKnown(node.left, context)
+                ? evaluate(node, context)
+                : node;
+        case "call":
+            // Calls of unknown predicates stay for the render to report
+            return isKnown(node.argument, context)
+                    && findPredicate(context.predicates, node.name)
+                        !== undefined
+                ? evaluate(node, context)
+                : node;
+        case "not": {
+            const operand = resolveCondition(node.operand, context);
+            if (typeof operand === "boolean") {
+                return !operand;
+            }
+            return operand === node.operand
+                ? node
+                : { type: "not", operand };
+        }
+        case "and":
+        case "or": {
+            // `false` decides `&&`, `true` decides `||`
+            const absorbing = node.type === "or";
+            const left = resolveCondition(node.left, context);
+            const right = resolveCondition(node.right, context);
+            if (left === absorbing || right === absorbing) {
+                return absorbing;
+            }
+            if (typeof left === "boolean") {
+                return right;
+            }
+            if (typeof right === "boolean") {
+                return left;
+            }
+            return left === node.left && right === node.right
+                ? node
+                : { type: node.type, left, right };
+        }
+    }
+}
+
+/**
+ * Check if the value of an operand is known: literals always are, paths if
+ * they exist in the data and don't start with an alias.
+ */
+function isKnown(node: ValueNode, context: PartialContext): boolean {
+    if (node.type === "literal") {
+        return true;
+    }
+
+    const [ head ] = node.path.split(".", 1);
+
+    return !context.aliases.has(head)
+        && hasNestedValue(context.data, node.path);
+}
+
+function evaluate(node: ConditionNode, context: PartialContext): boolean {
+    return evaluateConditionNode(node, {
+        lookup: ({ path }) => getNestedValue(context.data, path),
+        test: truthinessTests[context.truthiness],
+        call: (name, value) =>
+            findPredicate(context.predicates, name)?.(value) ?? false,
+    });
+}
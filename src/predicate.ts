@@ -0,0 +1,265 @@
+/**
+ * Predicates called in conditions: `/*if:nonEmpty(filters.ids)* /`.
+ *
+ * Built-in predicates:
+ * - `defined(x)`: `x` is not `null` or `undefined`
+ * - `empty(x)`: `x` is `null`, `undefined`, or a string or array of length 0
+ * - `nonEmpty(x)`: `x` is not empty
+ * - `blank(x)`: `x` is `null`, `undefined`, or a string of only whitespace
+ *
+ * Other predicates are registered with
+ * `conditionalString.withPredicates({ name: (value) => ... })`, and may
+ * replace the built-in ones. Result types treat their results as
+ * indeterminate, unless the predicate is a type guard
+ * (`(value: unknown): value is number => ...`): then the result is known if
+ * the value type is, or can't be, the guarded type.
+ *
+ * A call of a predicate that is neither registered nor built in is a syntax
+ * error, reported when the template is parsed (and in result types), even
+ * if its condition is never evaluated.
+ */
+
+import type {
+    AndNode,
+    CallNode,
+    ConditionNode,
+    NotNode,
+    OrNode,
+    ParseCondition,
+    Whitespace,
+} from "./condition.js";
+import {
+    ConditionalStringSyntaxError,
+    type TemplateSyntaxError,
+} from "./errors.js";
+import type { TemplateNode, TrimStart } from "./parser.js";
+
+/**
+ * A predicate called in a condition with the value of its argument.
+ */
+export type ConditionPredicate = (value: unknown) => boolean;
+
+/**
+ * Predicates by name.
+ */
+export type ConditionPredicates = Readonly<Record<string, ConditionPredicate>>;
+
+/**
+ * No predicates registered besides the built-in ones.
+ */
+export type NoPredicates = Record<never, ConditionPredicate>;
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+type BuiltinPredicate = "defined" | "empty" | "nonEmpty" | "blank";
+
+/**
+ * Check if a predicate is registered or built in.
+ */
+export type IsPredicate<Name extends string, Predicates> = Name extends
+    BuiltinPredicate | keyof Predicates ? true
+    : false;
+
+/**
+ * The names of the predicates a parsed condition calls.
+ */
+type CalledPredicates<Node> =
+    // A non-literal node (e.g. `ConditionNode` itself) calls no known names
+    [ ConditionNode ] extends [ Node ] ? never
+        : Node extends CallNode<infer Name> ? Name
+        : Node extends NotNode<infer Operand> ? CalledPredicates<Operand>
+        : Node extends AndNode<infer Left, infer Right>
+            ? CalledPredicates<Left> | CalledPredicates<Right>
+        : Node extends OrNode<infer Left, infer Right>
+            ? CalledPredicates<Left> | CalledPredicates<Right>
+        : never;
+
+/**
+ * Check that the conditions of a normalized template call only registered
+ * or built-in predicates. Returns a `TemplateSyntaxError` for the first
+ * condition that calls another one, or `never`.
+ * @example CheckPredicates<"/*if:nonEmtpy(a)* /A/*endif* /", NoPredicates> // TemplateSyntaxError<"Unknown predicate \"nonEmtpy\"">
+ */
+export type CheckPredicates<
+    Template extends string,
+    Predicates,
+> = Template extends `${string}/*${infer Marker}*/${infer Rest}`
+    ? Marker extends `if:${infer Expr}` | `elif:${infer Expr}` ? Exclude<
+            CalledPredicates<ParseCondition<Expr>>,
+            BuiltinPredicate | keyof Predicates
+        > extends infer Unknown extends string
+            ? [ Unknown ] extends [ never ] ? CheckPredicates<Rest, Predicates>
+            : TemplateSyntaxError<`Unknown predicate "${Unknown}"`>
+        : never
+    : CheckPredicates<Rest, Predicates>
+    : never;
+
+type IsDefined<T> = T extends null | undefined ? false : true;
+
+type IsEmpty<T> = T extends null | undefined ? true
+    : T extends string ? string extends T ? boolean
+        : T extends "" ? true
+        : false
+    : T extends readonly unknown[] ? T extends readonly [] ? true
+        : T extends
+            | readonly [ unknown, ...unknown[] ]
+            | readonly [ ...unknown[], unknown ] ? false
+        : boolean
+    : false;
+
+type IsBlank<T> = T extends null | undefined ? true
+    : T extends string ? string extends T ? boolean
+        : T extends "" | `${Whitespace}${string}`
+            ? TrimStart<T> extends infer Rest
+                ? string extends Rest ? boolean
+                : Rest extends "" ? true
+                : false
+            : never
+        : false
+    : false;
+
+/**
+ * The result of a type guard for a single (non-union) value type.
+ */
+type IsGuarded<T, Guard> = [ T ] extends [ Guard ] ? true
+    : [ T & Guard ] extends [ never ] ? false
+    : boolean;
+
+type Not<Value> = Value extends true ? false : Value extends false ? true
+    : boolean;
+
+/**
+ * Call a predicate on a single (non-union) value type.
+ */
+type CallMember<Name extends string, T, Predicates> = unknown extends T
+    ? boolean
+    : Name extends keyof Predicates
+        ? Predicates[Name] extends (value: unknown) => value is infer Guard
+            ? IsGuarded<T, Guard>
+        : boolean
+    : Name extends "defined" ? IsDefined<T>
+    : Name extends "empty" ? IsEmpty<T>
+    : Name extends "nonEmpty" ? Not<IsEmpty<T>>
+    : Name extends "blank" ? IsBlank<T>
+    : boolean;
+
+/**
+ * Evaluate a predicate call against the type of its argument, distributed
+ * over union members. Returns true, false, or boolean (indeterminate).
+ * @example EvalPredicate<"nonEmpty", [], NoPredicates> // false
+ */
+export type EvalPredicate<
+    Name extends string,
+    Value,
+    Predicates,
+> = [ Value ] extends [ never ] ? CallMember<Name, undefined, Predicates>
+    : Value extends unknown ? CallMember<Name, Value, Predicates>
+    : never;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+function isEmpty(value: unknown): boolean {
+    return value === null
+        || value === undefined
+        || ((typeof value === "string" || Array.isArray(value))
+            && value.length === 0);
+}
+
+/**
+ * Predicates available in every condition.
+ */
+export const builtinPredicates: ConditionPredicates = {
+    defined: (value) => value !== null && value !== undefined,
+    empty: isEmpty,
+    nonEmpty: (value) => !isEmpty(value),
+    blank: (value) =>
+        value === null
+        || value === undefined
+        || (typeof value === "string" && /^[ \t\r\n]*$/.test(value)),
+};
+
+/**
+ * Throw a `ConditionalStringSyntaxError` at the first condition of parsed
+ * nodes that calls a predicate neither registered nor built in.
+ */
+export function checkPredicates(
+    template: string,
+    nodes: TemplateNode[],
+    predicates: ConditionPredicates,
+): void {
+    for (const node of nodes) {
+        switch (node.type) {
+            case "if":
+                for (const branch of node.branches) {
+                    const name = branch.condition === null
+                        ? undefined
+                        : findUnknownCall(branch.condition, predicates);
+                    if (name !== undefined) {
+                        throw new ConditionalStringSyntaxError(
+                            `Unknown predicate "${name}"`,
+                            template,
+                            branch.offset,
+                        );
+                    }
+                    checkPredicates(template, branch.children, predicates);
+                }
+                break;
+            case "each":
+                checkPredicates(template, node.body, predicates);
+                checkPredicates(template, node.empty ?? [], predicates);
+                break;
+            case "where":
+            case "having":
+            case "list":
+                checkPredicates(template, node.children, predicates);
+                break;
+            case "include":
+                // Errors in the partial point into its own text
+                checkPredicates(node.template, node.children, predicates);
+                break;
+        }
+    }
+}
+
+/**
+ * The name of the first predicate a condition calls that is neither
+ * registered nor built in.
+ */
+function findUnknownCall(
+    node: ConditionNode,
+    predicates: ConditionPredicates,
+): string | undefined {
+    switch (node.type) {
+        case "call":
+            return findPredicate(predicates, node.name) === undefined
+                ? node.name
+                : undefined;
+        case "not":
+            return findUnknownCall(node.operand, predicates);
+        case "and":
+        case "or":
+            return findUnknownCall(node.left, predicates)
+                ?? findUnknownCall(node.right, predicates);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Find a predicate by name, registered or built in.
+ */
+export function findPredicate(
+    predicates: ConditionPredicates,
+    name: string,
+): ConditionPredicate | undefined {
+    if (Object.hasOwn(predicates, name)) {
+        return predicates[name];
+    }
+    return Object.hasOwn(builtinPredicates, name)
+        ? builtinPredicates[name]
+        : undefined;
+}
@@ -0,0 +1,110 @@
+/**
+ * Raw regions and escaped markers, for text that looks like a marker but is
+ * not one, such as SQL comments and optimizer hints:
+ * - `/*raw* /.../*endraw* /` passes the text between the markers through
+ *   untouched; the markers themselves are removed
+ * - a `\` right after the opening delimiter escapes a marker: `/*\if:a* /`
+ *   is written as `/*if:a* /` and `/*\\x* /` as `/*\x* /`; the same goes for
+ *   `<!--\if:a-->`, `-- #\if a` and `{{\name}}` in their profiles
+ *
+ * Raw regions are written C-style in every profile and take no trim flags.
+ * At the type level the comments inside raw regions are escaped before the
+ * other passes read the template, so none of them is taken for a marker.
+ */
+
+import {
+    type IsDirective,
+    isDirective,
+    type SplitTrimFlags,
+} from "./parser.js";
+import { commentSource } from "./syntax.js";
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * Split a template at its first raw region if it comes before any
+ * `Opener`: `[before, region, after]`, or `null`.
+ */
+export type SplitRawRegion<
+    Template extends string,
+    Opener extends string,
+> = Template extends `${infer Before}/*raw*/${infer Rest}`
+    ? Before extends `${string}${Opener}${string}` ? null
+    : Rest extends `${infer Content}/*endraw*/${infer After}`
+        ? [ Before, `/*raw*/${Content}/*endraw*/`, After ]
+    : null
+    : null;
+
+/**
+ * Escape the comments of the text of a raw region.
+ */
+type EscapeComments<
+    Text extends string,
+    Result extends string = "",
+> = Text extends `${infer Before}/*${infer Body}*/${infer After}`
+    ? EscapeComments<After, `${Result}${Before}/*\\${Body}*/`>
+    : `${Result}${Text}`;
+
+/**
+ * Replace the raw regions of a literal template with their text, its
+ * comments escaped. An unclosed `/*raw* /` stays for validation to report.
+ * @example EscapeRawRegions<"a/*raw* //*if:b* //*endraw* /"> // "a/*\\if:b* /"
+ */
+export type EscapeRawRegions<
+    Template extends string,
+    Result extends string = "",
+> = Template extends `${infer Before}/*raw*/${infer Rest}`
+    ? Rest extends `${infer Content}/*endraw*/${infer After}`
+        ? EscapeRawRegions<
+            After,
+            `${Result}${Before}${EscapeComments<Content>}`
+        >
+    : `${Result}${Template}`
+    : `${Result}${Template}`;
+
+/**
+ * The text a comment that is not a directive stands for: an escaped marker
+ * without its `\`, other comments as written.
+ */
+export type CommentText<Marker extends string> = Marker extends
+    `\\${infer Body}` ? `/*${Body}*/`
+    : `/*${Marker}*/`;
+
+/**
+ * Check if a comment needs its `\` to be read as text again.
+ */
+type NeedsEscape<Body extends string> = Body extends `\\${string}` | "raw"
+    ? true
+    : IsDirective<SplitTrimFlags<Body>[0]>;
+
+/**
+ * A comment that is not a directive as partial rendering prints it: as its
+ * text, escaped again only if that text would be read as a marker.
+ */
+export type PrintComment<Marker extends string> = Marker extends
+    `\\${infer Body}`
+    ? NeedsEscape<Body> extends true ? `/*${Marker}*/` : `/*${Body}*/`
+    : `/*${Marker}*/`;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+const commentPattern = new RegExp(commentSource, "g");
+
+/**
+ * Escape the comments of text that would be read as markers, so that the
+ * text stays as it is when the template is processed again.
+ * @example escapeMarkers("a /*if:b* / /*c* /") // "a /*\\if:b* / /*c* /"
+ */
+export function escapeMarkers(text: string): string {
+    return text.replace(
+        commentPattern,
+        (comment, body: string) =>
+            body.startsWith("\\") || body === "raw" || isDirective(body)
+                ? `/*\\${body}*/`
+                : comment,
+    );
+}
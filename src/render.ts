@@ -0,0 +1,495 @@
+/**
+ * Template renderer: walks a parsed template once and builds the result.
+ *
+ * Only the branch of a conditional block whose condition holds is visited.
+ * The body of an each block is rendered once per item with its alias bound
+ * to the item's path (`item.name` looks up `items.0.name`), so bound
+ * parameters are named and numbered by their full path.
+ *
+ * With a trace, the blocks visited are listed with their results, and the
+ * blocks of the content that is not rendered without them.
+ *
+ * In strict mode, missing values and non-boolean conditions throw a
+ * `ConditionalStringDataError` pointing at the marker that uses them.
+ * Unknown predicates are rejected when the template is parsed (see
+ * `checkPredicates`); a call that still reaches one throws a
+ * `ConditionalStringSyntaxError`.
+ */
+
+import { cleanClause, cleanList } from "./clause.js";
+import {
+    type EvaluationContext,
+    evaluateConditionNode,
+    evaluateInterpolation,
+    getNestedValue,
+    hasNestedValue,
+} from "./condition.js";
+import {
+    ConditionalStringDataError,
+    ConditionalStringSyntaxError,
+} from "./errors.js";
+import {
+    type BlockTrace,
+    describeBranch,
+    describeEach,
+    type TemplateExplanation,
+    traceBlock,
+    traceSkipped,
+} from "./explain.js";
+import type {
+    EachNode,
+    IfNode,
+    ParameterNode,
+    TemplateNode,
+    ValueNode,
+} from "./parser.js";
+import { type ConditionPredicates, findPredicate } from "./predicate.js";
+import type { ParameterBinder } from "./sql.js";
+import { trailingWhitespacePattern } from "./syntax.js";
+import { type TruthinessPreset, truthinessTests } from "./truthiness.js";
+
+/**
+ * Checks applied to the data while rendering.
+ */
+export interface RenderOptions {
+    /**
+     * Throw a `ConditionalStringDataError` if a path the template uses is
+     * missing from the data. Paths marked optional with `?` and values with
+     * a fallback may still be missing.
+     */
+    strict?: boolean;
+
+    /**
+     * Throw a `ConditionalStringDataError` if a value used as a condition on
+     * its own (`/*if:flag* /`) is not a boolean, instead of applying the
+     * truthiness preset. Comparisons are not affected, and a missing
+     * optional path is `false`.
+     */
+    strictBooleans?: boolean;
+}
+
+/**
+ * The marker an error points to.
+ */
+type Origin = Pick<ValueNode, "marker" | "offset">;
+
+/**
+ * State of a render: the template (for error positions), the data, the
+ * parameter binder of SQL mode, the registered predicates, the truthiness
+ * preset, the paths the aliases of enclosing each blocks are bound to, and
+ * the trace of an explained render.
+ */
+interface RenderContext {
+    template: string;
+    data: Record<string, unknown>;
+    options: RenderOptions;
+    binder: ParameterBinder | undefined;
+    predicates: ConditionPredicates;
+    truthiness: TruthinessPreset;
+    aliases: ReadonlyMap<string, string>;
+    trace: BlockTrace | undefined;
+}
+
+/**
+ * Render parsed template nodes against data.
+ * `/*:path* /` markers are bound only if a binder is given.
+ */
+export function renderTemplate(
+    template: string,
+    nodes: TemplateNode[],
+    data: Record<string, unknown>,
+    options: RenderOptions = {},
+    binder?: ParameterBinder,
+    predicates: ConditionPredicates = {},
+    truthiness: TruthinessPreset = "js",
+): string {
+    return renderNodes(nodes, {
+        template,
+        data,
+        options,
+        binder,
+        predicates,
+        truthiness,
+        aliases: new Map(),
+        trace: undefined,
+    });
+}
+
+/**
+ * Render parsed template nodes against data and list their blocks.
+ */
+export function explainTemplate(
+    template: string,
+    nodes: TemplateNode[],
+    data: Record<string, unknown>,
+    options: RenderOptions = {},
+    predicates: ConditionPredicates = {},
+    truthiness: TruthinessPreset = "js",
+): TemplateExplanation {
+    const trace: BlockTrace = { blocks: [], parent: null, partial: null };
+    const text = renderNodes(nodes, {
+        template,
+        data,
+        options,
+        binder: undefined,
+        predicates,
+        truthiness,
+        aliases: new Map(),
+        trace,
+    });
+
+    return { text, blocks: trace.blocks };
+}
+
+/**
+ * The text rendered so far. An empty clause block removes the whitespace
+ * before it, but not below `floor`: the end of the last each separator.
+ */
+interface Output {
+    text: string;
+    floor: number;
+}
+
+function renderNodes(nodes: TemplateNode[], context: RenderContext): string {
+    const output: Output = { text: "", floor: 0 };
+    appendNodes(nodes, context, output);
+    return output.text;
+}
+
+/**
+ * Render nodes at the end of the output. Nested blocks render into the same
+ * output, so that an empty clause block in them reaches the text before.
+ */
+function appendNodes(
+    nodes: TemplateNode[],
+    context: RenderContext,
+    output: Output,
+): void {
+    for (const node of nodes) {
+        switch (node.type) {
+            case "text":
+                output.text += node.value;
+                break;
+            case "if": {
+                if (context.trace !== undefined) {
+                    appendTracedIf(node, context, context.trace, output);
+                    break;
+                }
+                // The first branch whose condition holds, nothing if none does
+                const branch = node.branches.find((branch) =>
+                    branch.condition === null
+                    || evaluateConditionNode(
+                        branch.condition,
+                        createEvaluationContext(context, branch),
+                    )
+                );
+                if (branch !== undefined) {
+                    appendNodes(branch.children, context, output);
+                }
+                break;
+            }
+            case "each":
+                appendEach(node, context, output);
+                break;
+            case "where":
+            case "having":
+                appendClause(
+                    output,
+                    cleanClause(
+                        node.type,
+                        renderNodes(node.children, context),
+                    ),
+                );
+                break;
+            case "list":
+                appendClause(
+                    output,
+                    cleanList(
+                        node.separator,
+                        renderNodes(node.children, context),
+                    ),
+                );
+                break;
+            case "include":
+                // Errors in the partial point into its own text
+                appendNodes(node.children, {
+                    ...context,
+                    template: node.template,
+                    trace: context.trace && {
+                        ...context.trace,
+                        partial: node.name,
+                    },
+                }, output);
+                break;
+            case "value":
+                output.text += evaluateInterpolation(
+                    node.expression,
+                    createEvaluationContext(
+                        context,
+                        node,
+                        node.expression.fallback !== null,
+                    ),
+                );
+                break;
+            case "parameter":
+                output.text += renderParameter(node, context);
+                break;
+        }
+    }
+}
+
+/**
+ * Append the text of a clause block. An empty block removes the whitespace
+ * before it instead, so that the whitespace around it does not double.
+ */
+function appendClause(output: Output, clause: string): void {
+    output.text = clause === ""
+        ? output.text.slice(0, output.floor)
+            + output.text
+                .slice(output.floor)
+                .replace(trailingWhitespacePattern, "")
+        : output.text + clause;
+}
+
+/**
+ * Render a conditional block and list its branches.
+ */
+function appendTracedIf(
+    node: IfNode,
+    context: RenderContext,
+    trace: BlockTrace,
+    output: Output,
+): void {
+    let taken = false;
+
+    node.branches.forEach((branch, index) => {
+        const values: Record<string, unknown> = {};
+        // Branches after the one rendered are not evaluated
+        const holds = taken
+            ? null
+            : branch.condition === null
+            || evaluateConditionNode(
+                branch.condition,
+                createEvaluationContext(context, branch, false, values),
+            );
+        const inner = traceBlock(trace, {
+            ...describeBranch(node, index),
+            values,
+            result: branch.condition === null ? null : holds,
+            included: holds === true,
+        });
+
+        if (holds === true) {
+            taken = true;
+            appendNodes(branch.children, { ...context, trace: inner }, output);
+        }
+        else {
+            traceSkipped(branch.children, inner);
+        }
+    });
+}
+
+function appendEach(
+    node: EachNode,
+    context: RenderContext,
+    output: Output,
+): void {
+    const path = resolvePath(node.path, context.aliases);
+    const items = lookupPath(context, path, node.optional, node);
+    const hasItems = Array.isArray(items) && items.length > 0;
+    const trace = context.trace && traceBlock(context.trace, {
+        ...describeEach(node),
+        values: { [path]: items },
+        result: hasItems,
+        included: hasItems || node.empty !== null,
+    });
+    const inner = { ...context, trace };
+
+    if (!hasItems) {
+        if (trace !== undefined) {
+            traceSkipped(node.body, trace);
+        }
+        if (node.empty !== null) {
+            appendNodes(node.empty, inner, output);
+        }
+        return;
+    }
+
+    items.forEach((_, index) => {
+        if (index > 0) {
+            // An empty clause block does not remove the separator
+            output.text += node.separator;
+            output.floor = output.text.length;
+        }
+        appendNodes(node.body, {
+            ...inner,
+            aliases: new Map(context.aliases).set(
+                node.alias,
+                `${path}.${index}`,
+            ),
+        }, output);
+    });
+
+    if (trace !== undefined && node.empty !== null) {
+        traceSkipped(node.empty, trace);
+    }
+}
+
+function renderParameter(node: ParameterNode, context: RenderContext): string {
+    if (context.binder === undefined) {
+        return node.marker;
+    }
+
+    const { value, fallback } = node.expression;
+    const path = resolvePath(value.path, context.aliases);
+    const conflict = context.binder.conflictOf(path);
+    if (conflict !== undefined) {
+        throw createDataError(
+            context,
+            `Parameter "${path}" has the same name as "${conflict}"`,
+            path,
+            node,
+        );
+    }
+
+    return context.binder.bind(
+        path,
+        lookupPath(
+            context,
+            path,
+            value.optional || fallback !== null,
+            node,
+        ) ?? fallback?.value,
+    );
+}
+
+/**
+ * Create the context the expressions of a marker are evaluated in. The
+ * values looked up are added to `values` if given.
+ */
+function createEvaluationContext(
+    context: RenderContext,
+    origin: Origin,
+    hasFallback = false,
+    values?: Record<string, unknown>,
+): EvaluationContext {
+    return {
+        lookup: (node) => {
+            const path = resolvePath(node.path, context.aliases);
+            const value = lookupPath(
+                context,
+                path,
+                node.optional || hasFallback,
+                origin,
+            );
+            if (values !== undefined) {
+                values[path] = value;
+            }
+            return value;
+        },
+        test: (value, node) => {
+            if (
+                context.options.strictBooleans
+                && node.type === "path"
+                && typeof value !== "boolean"
+                && !(node.optional && value === undefined)
+            ) {
+                const path = resolvePath(node.path, context.aliases);
+                throw createDataError(
+                    context,
+                    `Non-boolean value ${describeValue(value)} of "${path}"`,
+                    path,
+                    origin,
+                );
+            }
+            return truthinessTests[context.truthiness](value);
+        },
+        call: (name, value) => {
+            const predicate = findPredicate(context.predicates, name);
+            if (predicate === undefined) {
+                throw new ConditionalStringSyntaxError(
+                    `Unknown predicate "${name}"`,
+                    context.template,
+                    origin.offset,
+                );
+            }
+            return predicate(value);
+        },
+    };
+}
+
+/**
+ * Get the value of a full path, checking that it exists in strict mode.
+ */
+function lookupPath(
+    context: RenderContext,
+    path: string,
+    optional: boolean,
+    origin: Origin,
+): unknown {
+    const value = getNestedValue(context.data, path);
+
+    if (
+        value === undefined
+        && context.options.strict
+        && !optional
+        && !hasNestedValue(context.data, path)
+    ) {
+        throw createDataError(
+            context,
+            `Missing value "${path}"`,
+            path,
+            origin,
+        );
+    }
+
+    return value;
+}
+
+function createDataError(
+    context: RenderContext,
+    reason: string,
+    path: string,
+    origin: Origin,
+): ConditionalStringDataError {
+    return new ConditionalStringDataError(
+        `${reason} in "${origin.marker}"`,
+        path,
+        context.template,
+        origin.offset,
+    );
+}
+
+/**
+ * Describe a value in an error message: strings are quoted.
+ */
+function describeValue(value: unknown): string {
+    if (typeof value === "string") {
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return "(array)";
+    }
+    if (value !== null && typeof value === "object") {
+        return "(object)";
+    }
+    return String(value);
+}
+
+/**
+ * Replace an alias at the start of a path with the path it is bound to.
+ */
+function resolvePath(
+    path: string,
+    aliases: ReadonlyMap<string, string>,
+): string {
+    if (aliases.size === 0) {
+        return path;
+    }
+
+    const dot = path.indexOf(".");
+    const head = dot === -1 ? path : path.slice(0, dot);
+    const target = aliases.get(head);
+
+    return target === undefined ? path : target + path.slice(head.length);
+}
@@ -0,0 +1,187 @@
+/**
+ * SQL parameter binding for `/*:path* /` markers.
+ *
+ * Each marker that survives conditional processing is replaced with a
+ * placeholder, and its value is collected for the database driver:
+ * - `postgres`: `$1`, `$2`, ... (a path used twice reuses its number)
+ * - `mysql`, `sqlite`: `?` (a path used twice is bound twice)
+ * - `named`: `:path` with dots replaced by `_` (values is an object); two
+ *   paths with the same name, such as `u.x` and `u_x`, are an error
+ */
+
+import type { RenderOptions } from "./render.js";
+
+/**
+ * Placeholder style of the database driver.
+ */
+export type PlaceholderStyle = "postgres" | "mysql" | "sqlite" | "named";
+
+/**
+ * Options of SQL mode, including the checks of the data.
+ */
+export interface SqlOptions<Style extends PlaceholderStyle = PlaceholderStyle>
+    extends RenderOptions
+{
+    /**
+     * Placeholder style, `postgres` by default.
+     */
+    placeholder?: Style;
+}
+
+/**
+ * Values to pass to the driver along with the query text:
+ * an object for `named` placeholders, an array otherwise.
+ */
+export type SqlValues<Style extends PlaceholderStyle> = Style extends "named"
+    ? Record<string, unknown>
+    : unknown[];
+
+/**
+ * A query with bound parameters.
+ */
+export interface SqlQuery<
+    Text extends string = string,
+    Style extends PlaceholderStyle = PlaceholderStyle,
+> {
+    text: Text;
+    values: SqlValues<Style>;
+}
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * Replace all dots in a path with underscores.
+ */
+type ParameterName<Path extends string> = Path extends
+    `${infer Head}.${infer Tail}` ? `${Head}_${ParameterName<Tail>}`
+    : Path;
+
+/**
+ * The bound paths other than `Path` that have the same name.
+ */
+type NameConflict<Paths extends string[], Path extends string> =
+    Paths[number] extends infer Bound extends string
+        ? Bound extends Path ? never
+        : ParameterName<Bound> extends ParameterName<Path> ? Bound
+        : never
+        : never;
+
+/**
+ * Find the 1-based position of a path in the list of bound paths.
+ * Returns `never` if the path is not bound yet.
+ */
+type ParameterNumber<
+    Paths extends string[],
+    Path extends string,
+    Counter extends unknown[] = [ unknown ],
+> = Paths extends [ infer Head, ...infer Rest extends string[] ]
+    ? Head extends Path ? Counter["length"]
+    : ParameterNumber<Rest, Path, [ ...Counter, unknown ]>
+    : never;
+
+/**
+ * Get the placeholder text of a path in the given style.
+ */
+type Placeholder<
+    Style extends PlaceholderStyle,
+    Path extends string,
+    Paths extends string[],
+> = Style extends "named" ? `:${ParameterName<Path>}`
+    : Style extends "postgres" ? `$${ParameterNumber<Paths, Path>}`
+    : "?";
+
+/**
+ * Add a path to the list of bound paths if it is not there yet.
+ */
+type AddPath<Paths extends string[], Path extends string> = Path extends
+    Paths[number] ? Paths
+    : [ ...Paths, Path ];
+
+/**
+ * Bind a path: returns its placeholder and the bound paths with it, or
+ * `null` if a named placeholder is taken by another path.
+ * @example BindParameter<"postgres", "b", [ "a" ]> // [ "$2", [ "a", "b" ] ]
+ */
+export type BindParameter<
+    Style extends PlaceholderStyle,
+    Path extends string,
+    Paths extends string[],
+> = Style extends "named"
+    ? [ NameConflict<Paths, Path> ] extends [ never ]
+        ? [ Placeholder<Style, Path, Paths>, AddPath<Paths, Path> ]
+    : null
+    : AddPath<Paths, Path> extends infer Next extends string[]
+        ? [ Placeholder<Style, Path, Next>, Next ]
+    : never;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * Collects bound values and produces placeholders for them.
+ */
+export interface ParameterBinder {
+    /**
+     * Bind the value of a `/*:path* /` marker and return its placeholder.
+     */
+    bind(path: string, value: unknown): string;
+
+    /**
+     * The path bound before that has the same placeholder as `path`, if
+     * any: with `named` placeholders `u.x` and `u_x` are both `:u_x`.
+     */
+    conflictOf(path: string): string | undefined;
+
+    /**
+     * Values bound so far.
+     */
+    values: unknown[] | Record<string, unknown>;
+}
+
+/**
+ * Create a parameter binder for the given placeholder style.
+ */
+export function createParameterBinder(
+    style: PlaceholderStyle = "postgres",
+): ParameterBinder {
+    const numbers = new Map<string, number>();
+    const positional: unknown[] = [];
+    const named: Record<string, unknown> = {};
+    // The path of each named placeholder
+    const namedPaths = new Map<string, string>();
+    const nameOf = (path: string) => path.replace(/\./g, "_");
+
+    return {
+        values: style === "named" ? named : positional,
+        bind(path, value = null) {
+            switch (style) {
+                case "named": {
+                    const name = nameOf(path);
+                    named[name] = value;
+                    namedPaths.set(name, path);
+                    return `:${name}`;
+                }
+                case "postgres": {
+                    let number = numbers.get(path);
+                    if (number === undefined) {
+                        number = positional.push(value);
+                        numbers.set(path, number);
+                    }
+                    return `$${number}`;
+                }
+                default:
+                    positional.push(value);
+                    return "?";
+            }
+        },
+        conflictOf(path) {
+            const bound = style === "named"
+                ? namedPaths.get(nameOf(path))
+                : undefined;
+            return bound === path ? undefined : bound;
+        },
+    };
+}
@@ -0,0 +1,546 @@
+/**
+ * Syntax profiles: other ways to write markers, for languages where
+ * `/* * /` is not a comment.
+ *
+ * A profile only changes how markers are spelled. Each marker is read as
+ * the C-style marker it stands for, and C-style markers keep working in
+ * every profile:
+ * - `"c"`: `/*if:a* /.../*endif* /` (the default)
+ * - `"html"`: `<!--if:a-->...<!--endif-->`
+ * - `"sql"`: `-- #if a` ... `-- #endif` on lines of their own, which are
+ *   removed with their line break; inline `/*:path* /` markers still bind
+ *   parameters
+ * - `"mustache"`: `{{#if a}}...{{else if b}}...{{else}}...{{/if}}`,
+ *   `{{#each items as item}}...{{else}}...{{/each}}`, `{{path}}` for values
+ *   and `{{:path}}` for parameters; `~` trims like `-` does; comments
+ *   (`{{! note }}`, `{{!-- note --}}`) are removed
+ * - `{ open, close }`: custom delimiters around C-style directives
+ *
+ * Comments in a profile's syntax that are not directives stay text, as do
+ * escaped markers and raw regions, which are written the same way in every
+ * profile. At the type level a template is converted to C-style markers
+ * before it is processed, so result types follow the same rules.
+ */
+
+import { ConditionalStringSyntaxError } from "./errors.js";
+import type {
+    IsDirective,
+    SplitTrimFlags,
+    TrimEnd,
+    TrimStart,
+} from "./parser.js";
+import type { SplitRawRegion } from "./raw.js";
+
+/**
+ * Custom marker delimiters: `{ open: "<%", close: "%>" }` reads
+ * `<%if:a%>...<%endif%>`.
+ */
+export interface Delimiters {
+    readonly open: string;
+    readonly close: string;
+}
+
+/**
+ * A built-in syntax profile or custom delimiters.
+ */
+export type SyntaxProfile = "c" | "html" | "sql" | "mustache" | Delimiters;
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * Convert the directives between custom delimiters.
+ */
+type ConvertDelimited<
+    Template extends string,
+    Open extends string,
+    Close extends string,
+    Result extends string = "",
+> = SplitRawRegion<Template, Open> extends [
+    infer Before extends string,
+    infer Region extends string,
+    infer After extends string,
+] ? ConvertDelimited<After, Open, Close, `${Result}${Before}${Region}`>
+    : Template extends `${infer Before}${Open}${infer Marker}${Close}${infer After}`
+        ? ConvertDelimited<
+            After,
+            Open,
+            Close,
+            `${Result}${Before}${Marker extends `\\${infer Escaped}`
+                ? `${Open}${Escaped}${Close}`
+                : IsDirective<SplitTrimFlags<Marker>[0]> extends true
+                    ? `/*${Marker}*/`
+                : `${Open}${Marker}${Close}`}`
+        >
+    : `${Result}${Template}`;
+
+/**
+ * Directives of SQL line comments.
+ */
+type SqlDirective =
+    | "if"
+    | "elif"
+    | "else"
+    | "endif"
+    | "each"
+    | "empty"
+    | "endeach"
+    | "where"
+    | "endwhere"
+    | "having"
+    | "endhaving"
+    | "list"
+    | "endlist";
+
+/**
+ * Convert the text after `-- #` up to the end of its line, or `never` if it
+ * is not a directive.
+ */
+type ConvertSqlDirective<Line extends string> = Line extends
+    `${infer Name extends SqlDirective} ${infer Expr}`
+    ? `${Name}:${TrimStart<Expr>}`
+    : Line extends SqlDirective ? Line
+    : never;
+
+/**
+ * Remove the indentation at the end of the text before a line comment.
+ */
+type TrimIndent<S extends string> = S extends `${infer Rest}${" " | "\t"}`
+    ? TrimIndent<Rest>
+    : S;
+
+/**
+ * Check if a line comment is the first thing on its line.
+ */
+type IsLineStart<Before extends string, AtLineStart extends boolean> =
+    TrimIndent<Before> extends "" ? AtLineStart
+        : TrimIndent<Before> extends `${string}\n` ? true
+        : false;
+
+/**
+ * Convert an escaped directive line (the text after `-- #\`) to its text,
+ * or `never` if it is not an escaped directive.
+ */
+type ConvertEscapedSqlLine<
+    Line extends string,
+    Rest extends string,
+> = Line extends `\\${infer Escaped}`
+    ? [ ConvertSqlDirective<TrimEnd<Escaped>> ] extends [ never ] ? never
+    : `-- #${Escaped}${Rest extends `${string}\n${string}` ? "\n" : ""}`
+    : never;
+
+/**
+ * Convert the directive lines of the `"sql"` profile. `AtLineStart` is
+ * false while the text so far ends in the middle of a line.
+ */
+type ConvertSqlLines<
+    Template extends string,
+    Result extends string = "",
+    AtLineStart extends boolean = true,
+> = SplitRawRegion<Template, "-- #"> extends [
+    infer Before extends string,
+    infer Region extends string,
+    infer After extends string,
+] ? ConvertSqlLines<After, `${Result}${Before}${Region}`, false>
+    : Template extends `${infer Before}-- #${infer Rest}` ? (
+        Rest extends `${infer Line}\n${infer After}` ? [ Line, After ]
+            : [ Rest, "" ]
+    ) extends [ infer Line extends string, infer After extends string ]
+        ? IsLineStart<Before, AtLineStart> extends true
+            ? [ ConvertEscapedSqlLine<Line, Rest> ] extends [ never ]
+                ? [ ConvertSqlDirective<TrimEnd<Line>> ] extends [ never ]
+                    ? ConvertSqlLines<Rest, `${Result}${Before}-- #`, false>
+                : ConvertSqlLines<
+                    After,
+                    `${Result}${TrimIndent<Before>}/*${ConvertSqlDirective<
+                        TrimEnd<Line>
+                    >}*/`,
+                    true
+                >
+            : ConvertSqlLines<
+                After,
+                `${Result}${Before}${ConvertEscapedSqlLine<Line, Rest>}`,
+                true
+            >
+        : ConvertSqlLines<Rest, `${Result}${Before}-- #`, false>
+    : never
+    : `${Result}${Template}`;
+
+type Pop<Blocks extends string[]> = Blocks extends
+    [ ...infer Rest extends string[], string ] ? Rest
+    : [];
+
+/**
+ * Convert the text of a mustache tag without its `~` flags and whitespace.
+ * `Blocks` lists the open `if` and `each` blocks, so that `else` can stand
+ * for `empty`. Returns `[marker, blocks]`.
+ */
+type ConvertMustacheTag<Tag extends string, Blocks extends string[]> =
+    Tag extends `#${infer Rest}`
+        ? Rest extends `${infer Name} ${infer Expr}` ? [
+                `${Name}:${TrimStart<Expr>}`,
+                Name extends "if" | "each" ? [ ...Blocks, Name ] : Blocks,
+            ]
+        : [ Rest, Blocks ]
+        : Tag extends `/${infer Name}` ? [
+                `end${Name}`,
+                Name extends "if" | "each" ? Pop<Blocks> : Blocks,
+            ]
+        : Tag extends `else if ${infer Expr}`
+            ? [ `elif:${TrimStart<Expr>}`, Blocks ]
+        : Tag extends "else" ? [
+                Blocks extends [ ...string[], "each" ] ? "empty" : "else",
+                Blocks,
+            ]
+        : Tag extends `:${string}` ? [ Tag, Blocks ]
+        : [ `=${Tag}`, Blocks ];
+
+/**
+ * Split a template at its first `{{!-- --}}` comment if it is the first
+ * tag: `[before, after]`, or `null`.
+ */
+type SplitMustacheComment<Template extends string> = Template extends
+    `${infer Before}{{!--${string}--}}${infer After}`
+    ? Before extends `${string}{{${string}` ? null : [ Before, After ]
+    : null;
+
+/**
+ * Convert the tags of the `"mustache"` profile. Comments are removed.
+ */
+type ConvertMustache<
+    Template extends string,
+    Result extends string = "",
+    Blocks extends string[] = [],
+> = SplitRawRegion<Template, "{{"> extends [
+    infer Before extends string,
+    infer Region extends string,
+    infer After extends string,
+] ? ConvertMustache<After, `${Result}${Before}${Region}`, Blocks>
+    : SplitMustacheComment<Template> extends [
+        infer Before extends string,
+        infer After extends string,
+    ] ? ConvertMustache<After, `${Result}${Before}`, Blocks>
+    : Template extends `${infer Before}{{${infer Inner}}}${infer After}`
+        ? Inner extends `!${string}`
+            ? ConvertMustache<After, `${Result}${Before}`, Blocks>
+        : Inner extends `\\${infer Escaped}`
+            ? ConvertMustache<After, `${Result}${Before}{{${Escaped}}}`, Blocks>
+        : (
+            Inner extends `~${infer Rest}` ? [ "-", Rest ] : [ "", Inner ]
+        ) extends [
+            infer TrimBefore extends string,
+            infer Rest extends string,
+        ] ? (
+                Rest extends `${infer Tag}~` ? [ Tag, "-" ] : [ Rest, "" ]
+            ) extends [
+                infer Tag extends string,
+                infer TrimAfter extends string,
+            ] ? ConvertMustacheTag<TrimEnd<TrimStart<Tag>>, Blocks> extends [
+                    infer Marker extends string,
+                    infer Next extends string[],
+                ] ? ConvertMustache<
+                        After,
+                        `${Result}${Before}${IsDirective<Marker> extends true
+                            ? `/*${TrimBefore}${Marker}${TrimAfter}*/`
+                            : `{{${Inner}}}`}`,
+                        Next
+                    >
+                : never
+            : never
+        : never
+    : `${Result}${Template}`;
+
+/**
+ * Convert the markers of a literal template written in a syntax profile
+ * to C-style markers. Returns `string` for delimiters that are not literals.
+ * @example ToCStyleMarkers<"<!--if:a-->A<!--endif-->", "html"> // "/*if:a* /A/*endif* /"
+ */
+export type ToCStyleMarkers<
+    Template extends string,
+    Syntax extends SyntaxProfile,
+> = Syntax extends "c" ? Template
+    : Syntax extends "html" ? ConvertDelimited<Template, "<!--", "-->">
+    : Syntax extends "sql" ? ConvertSqlLines<Template>
+    : Syntax extends "mustache" ? ConvertMustache<Template>
+    : Syntax extends Delimiters
+        ? string extends Syntax["open"] | Syntax["close"] ? string
+        : ConvertDelimited<Template, Syntax["open"], Syntax["close"]>
+    : Template;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * A marker found in a template, as the C-style marker it stands for.
+ * `start` and `end` delimit the text it replaces, `offset` is where errors
+ * point to, and `expressionOffset` is where its expression starts.
+ * Raw regions and escaped markers have the `literal` text they stand for.
+ */
+export interface MarkerMatch {
+    marker: string;
+    start: number;
+    end: number;
+    offset: number;
+    expressionOffset: number;
+    literal?: string;
+}
+
+/**
+ * The directive part before the expression of a C-style marker.
+ */
+const directivePrefixPattern = /^-?(?:[a-z]+:|[=:])/;
+
+/**
+ * Whitespace removed by trim markers and around mustache tags; the same
+ * characters as at the type level.
+ */
+export const leadingWhitespacePattern = /^[ \t\r\n]+/;
+export const trailingWhitespacePattern = /[ \t\r\n]+$/;
+
+/**
+ * Patterns of C-style comments, SQL directive lines and mustache tags.
+ */
+export const commentSource = /\/\*((?:(?!\*\/)[\s\S])*)\*\//.source;
+const sqlLineSource =
+    /^([ \t]*)-- #(\\)?(if|elif|else|endif|each|empty|endeach|where|endwhere|having|endhaving|list|endlist)(?:( +)(.*?))?[ \t\r]*(?:\n|$)/
+        .source;
+// `{{!-- --}}` comments may contain `}}`
+const mustacheSource = /\{\{(!--[\s\S]*?--|(?:(?!\}\})[\s\S])*)\}\}/.source;
+
+const htmlDelimiters: Delimiters = { open: "<!--", close: "-->" };
+
+const rawClose = "/*endraw*/";
+
+/**
+ * Find the markers of a template in the order they appear.
+ * Which of them are directives is decided by the parser. Throws a
+ * `ConditionalStringSyntaxError` if a raw region is not closed.
+ */
+export function findMarkers(
+    template: string,
+    syntax: SyntaxProfile = "c",
+): MarkerMatch[] {
+    const delimiters = syntax === "html" ? htmlDelimiters : syntax;
+    const pattern = new RegExp(
+        delimiters === "c"
+            ? commentSource
+            : `${commentSource}|${getProfileSource(delimiters)}`,
+        "gm",
+    );
+    const blocks: string[] = [];
+    const matches: MarkerMatch[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(template)) !== null) {
+        const [ source, comment ] = match;
+        const start = match.index;
+        const end = start + source.length;
+
+        if (comment === "raw") {
+            const close = template.indexOf(rawClose, end);
+            if (close === -1) {
+                throw new ConditionalStringSyntaxError(
+                    `Unclosed raw block "${source}"`,
+                    template,
+                    start,
+                );
+            }
+            pattern.lastIndex = close + rawClose.length;
+            matches.push({
+                marker: comment,
+                start,
+                end: pattern.lastIndex,
+                offset: start,
+                expressionOffset: start,
+                literal: template.slice(end, close),
+            });
+        }
+        else if (comment !== undefined) {
+            matches.push(
+                escapedMatch(comment, "/*", "*/", start, end)
+                    ?? createMatch(comment, start, end, start + 2),
+            );
+        }
+        else if (typeof delimiters === "object") {
+            const { open, close } = delimiters;
+            matches.push(
+                escapedMatch(match[2], open, close, start, end)
+                    ?? createMatch(match[2], start, end, start + open.length),
+            );
+        }
+        else if (syntax === "sql") {
+            const [ , , indent, escaped, name, spaces, expression ] = match;
+            const offset = start + indent.length;
+            matches.push({
+                marker: expression ? `${name}:${expression}` : name,
+                start,
+                end,
+                offset,
+                expressionOffset: offset + 4 + name.length
+                    + (spaces?.length ?? 0),
+                // The line without the `\` after `-- #`
+                literal: escaped === undefined
+                    ? undefined
+                    : `${indent}-- #${source.slice(indent.length + 5)}`,
+            });
+        }
+        else if (match[2].startsWith("!")) {
+            // A mustache comment stands for no text
+            matches.push({
+                marker: match[2],
+                start,
+                end,
+                offset: start,
+                expressionOffset: start,
+                literal: "",
+            });
+        }
+        else {
+            matches.push(
+                escapedMatch(match[2], "{{", "}}", start, end)
+                    ?? convertMustacheTag(match[2], start, end, blocks),
+            );
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * The pattern of the markers of a profile. For delimiters and mustache tags
+ * its group is the text between the delimiters.
+ */
+function getProfileSource(
+    syntax: Exclude<SyntaxProfile, "c" | "html">,
+): string {
+    if (typeof syntax === "object") {
+        if (syntax.open === "" || syntax.close === "") {
+            throw new TypeError("Marker delimiters must not be empty");
+        }
+        const open = escapeRegExp(syntax.open);
+        const close = escapeRegExp(syntax.close);
+        return `${open}((?:(?!${close})[\\s\\S])*)${close}`;
+    }
+    switch (syntax) {
+        case "sql":
+            return sqlLineSource;
+        case "mustache":
+            return mustacheSource;
+    }
+}
+
+function createMatch(
+    marker: string,
+    start: number,
+    end: number,
+    markerOffset: number,
+): MarkerMatch {
+    return {
+        marker,
+        start,
+        end,
+        offset: start,
+        expressionOffset: markerOffset
+            + (directivePrefixPattern.exec(marker)?.[0].length ?? 0),
+    };
+}
+
+/**
+ * The match of an escaped marker (its text starts with `\`), or `null`.
+ */
+function escapedMatch(
+    marker: string,
+    open: string,
+    close: string,
+    start: number,
+    end: number,
+): MarkerMatch | null {
+    return marker.startsWith("\\")
+        ? {
+            marker,
+            start,
+            end,
+            offset: start,
+            expressionOffset: start,
+            literal: `${open}${marker.slice(1)}${close}`,
+        }
+        : null;
+}
+
+/**
+ * Convert a mustache tag (the text between `{{` and `}}`). `blocks` lists
+ * the open `if` and `each` blocks and is updated.
+ */
+function convertMustacheTag(
+    inner: string,
+    start: number,
+    end: number,
+    blocks: string[],
+): MarkerMatch {
+    const trimBefore = inner.startsWith("~") ? "-" : "";
+    const rest = trimBefore ? inner.slice(1) : inner;
+    const trimAfter = rest.endsWith("~") ? "-" : "";
+    const padded = trimAfter ? rest.slice(0, -1) : rest;
+    const tag = padded
+        .replace(leadingWhitespacePattern, "")
+        .replace(trailingWhitespacePattern, "");
+    const tagOffset = start + 2 + trimBefore.length
+        + (padded.length - padded.replace(leadingWhitespacePattern, "").length);
+
+    // The marker, and the length of the tag before its expression
+    let marker: string;
+    let prefix = 0;
+
+    if (tag.startsWith("#")) {
+        const space = tag.indexOf(" ");
+        const name = space === -1 ? tag.slice(1) : tag.slice(1, space);
+        if (space === -1) {
+            marker = name;
+        }
+        else {
+            const expression = tag.slice(space + 1);
+            const trimmed = expression.replace(leadingWhitespacePattern, "");
+            marker = `${name}:${trimmed}`;
+            prefix = tag.length - trimmed.length;
+            if (name === "if" || name === "each") {
+                blocks.push(name);
+            }
+        }
+    }
+    else if (tag.startsWith("/")) {
+        const name = tag.slice(1);
+        marker = `end${name}`;
+        if (name === "if" || name === "each") {
+            blocks.pop();
+        }
+    }
+    else if (tag.startsWith("else if ")) {
+        const trimmed = tag.slice(8).replace(leadingWhitespacePattern, "");
+        marker = `elif:${trimmed}`;
+        prefix = tag.length - trimmed.length;
+    }
+    else if (tag === "else") {
+        marker = blocks.at(-1) === "each" ? "empty" : "else";
+    }
+    else if (tag.startsWith(":")) {
+        marker = tag;
+        prefix = 1;
+    }
+    else {
+        marker = `=${tag}`;
+    }
+
+    return {
+        marker: `${trimBefore}${marker}${trimAfter}`,
+        start,
+        end,
+        offset: start,
+        expressionOffset: tagOffset + prefix,
+    };
+}
+
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,135 @@
+/**
+ * Tagged template API: conditions are passed inline, next to the text they
+ * guard, instead of by name in a separate data object.
+ *
+ * `cs.if(condition, text)` and `cs.unless(condition, text)` pick their text
+ * by the truthiness of the condition, and their result types are literal
+ * when the condition is a literal. The `cs` tag joins the pieces, dropping
+ * `null`, `undefined` and `false` values.
+ *
+ * The text of both may contain conditional comments, which are left for
+ * `conditionalString()` to process, and a `cs.if` may be nested in another.
+ *
+ * @example
+ * ```ts
+ * const query = cs`SELECT * FROM t ${cs.if(activeOnly, "WHERE active")}`;
+ * ```
+ */
+
+import { type IsTruthy } from "./condition.js";
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * The text picked by a truthiness (`boolean` picks either).
+ */
+type PickText<
+    Truthy extends boolean,
+    Then extends string,
+    Otherwise extends string,
+> = Truthy extends true ? Then : Otherwise;
+
+/**
+ * The result of `cs.if`.
+ */
+export type ConditionalIfResult<
+    Condition,
+    Then extends string,
+    Otherwise extends string = "",
+> = PickText<IsTruthy<Condition>, Then, Otherwise>;
+
+/**
+ * The result of `cs.unless`.
+ */
+export type ConditionalUnlessResult<
+    Condition,
+    Then extends string,
+    Otherwise extends string = "",
+> = PickText<IsTruthy<Condition>, Otherwise, Then>;
+
+/**
+ * A value of the `cs` tag. `null`, `undefined` and `false` add no text.
+ */
+export type ConditionalTagValue =
+    | string
+    | number
+    | boolean
+    | null
+    | undefined;
+
+/**
+ * The `cs` tag with its condition helpers.
+ */
+export interface ConditionalTag {
+    /**
+     * Join the parts of a tagged template. Types of tagged templates are not
+     * literal, so the result is a `string`; use a template literal
+     * `as const` for a literal type.
+     */
+    (strings: TemplateStringsArray, ...values: ConditionalTagValue[]): string;
+
+    /**
+     * `then` if the condition is truthy, `otherwise` (empty by default) if
+     * not.
+     *
+     * @example
+     * ```ts
+     * cs.if(true, "AND active"); // "AND active"
+     * cs.if(isAdmin, "all", "own"); // type: "all" | "own"
+     * ```
+     */
+    if<const Condition, Then extends string, Otherwise extends string = "">(
+        condition: Condition,
+        then: Then,
+        otherwise?: Otherwise,
+    ): ConditionalIfResult<Condition, Then, Otherwise>;
+
+    /**
+     * `then` if the condition is falsy, `otherwise` (empty by default) if
+     * not.
+     *
+     * @example
+     * ```ts
+     * cs.unless(false, "LIMIT 10"); // "LIMIT 10"
+     * ```
+     */
+    unless<const Condition, Then extends string, Otherwise extends string = "">(
+        condition: Condition,
+        then: Then,
+        otherwise?: Otherwise,
+    ): ConditionalUnlessResult<Condition, Then, Otherwise>;
+}
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+/**
+ * Implementation of the `cs` tag.
+ */
+function tag(
+    strings: TemplateStringsArray,
+    ...values: ConditionalTagValue[]
+): string {
+    let result = strings[0] ?? "";
+
+    for (let i = 0; i < values.length; i++) {
+        const value = values[i];
+        if (value !== null && value !== undefined && value !== false) {
+            result += String(value);
+        }
+        result += strings[i + 1] ?? "";
+    }
+
+    return result;
+}
+
+// The typed signatures only narrow the results of these functions
+export const cs: ConditionalTag = Object.assign(tag, {
+    if: (condition: unknown, then: string, otherwise = "") =>
+        condition ? then : otherwise,
+    unless: (condition: unknown, then: string, otherwise = "") =>
+        condition ? otherwise : then,
+}) as unknown as ConditionalTag;
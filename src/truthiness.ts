@@ -0,0 +1,123 @@
+/**
+ * Truthiness presets: how a value used as a condition on its own
+ * (`/*if:filters* /`) decides the condition.
+ *
+ * - `"js"` (the default): JavaScript truthiness; `0`, `""` and `NaN` are
+ *   false, `[]` and `{}` are true
+ * - `"strictBoolean"`: only `true` is true
+ * - `"presence"`: only `null` and `undefined` are false
+ * - `"emptyAware"`: `null`, `undefined`, `false`, `""` and empty arrays,
+ *   plain objects, maps and sets are false; numbers, `0` included, are true
+ *
+ * Set with `createConditionalString({ truthiness: "emptyAware" })`. Result
+ * types follow the preset. Comparisons and predicate calls are not
+ * affected.
+ */
+
+/**
+ * A truthiness preset.
+ */
+export type TruthinessPreset =
+    | "js"
+    | "strictBoolean"
+    | "presence"
+    | "emptyAware";
+
+// ============================================================================
+// Type-level utilities
+// ============================================================================
+
+/**
+ * If an object type has no keys (`{}`), or `boolean` if it may have none.
+ */
+type IsEmptyObject<T> = [ keyof T ] extends [ never ] ? true
+    : string extends keyof T ? boolean
+    // An object with only optional keys may be empty
+    : {} extends T ? boolean
+    : false;
+
+type IsFilled<T> = T extends null | undefined | false | "" ? false
+    : T extends string ? string extends T ? boolean : true
+    : T extends readonly unknown[] ? T extends readonly [] ? false
+        : T extends
+            | readonly [ unknown, ...unknown[] ]
+            | readonly [ ...unknown[], unknown ] ? true
+        : boolean
+    : T extends ReadonlyMap<unknown, unknown> | ReadonlySet<unknown> ? boolean
+    : T extends (...args: never[]) => unknown ? true
+    : T extends object ? IsEmptyObject<T> extends infer Empty
+            ? Empty extends true ? false
+            : Empty extends false ? true
+            : boolean
+        : never
+    : true;
+
+/**
+ * Decide a single (non-union) value type by JavaScript truthiness.
+ */
+type IsJsTruthy<T> = T extends false | 0 | 0n | "" | null | undefined ? false
+    : T extends string ? string extends T ? boolean : true
+    : T extends number ? number extends T ? boolean : true
+    : T extends bigint ? bigint extends T ? boolean : true
+    : true;
+
+/**
+ * Decide a single (non-union) value type.
+ */
+type TestMember<T, Preset extends TruthinessPreset> = Preset extends "js"
+    ? IsJsTruthy<T>
+    : Preset extends "strictBoolean" ? T extends true ? true : false
+    : Preset extends "presence" ? T extends null | undefined ? false : true
+    : IsFilled<T>;
+
+/**
+ * Combine the results of union members: `boolean` if they differ.
+ */
+type Combine<Results> = [ Results ] extends [ true ] ? true
+    : [ Results ] extends [ false ] ? false
+    : boolean;
+
+/**
+ * Check if a value type is truthy under a preset.
+ * Returns true, false, or boolean (indeterminate).
+ * @example IsPresetTruthy<0, "presence"> // true
+ */
+export type IsPresetTruthy<T, Preset extends TruthinessPreset> =
+    unknown extends T ? boolean
+        : [ T ] extends [ never ] ? false
+        : Combine<T extends unknown ? TestMember<T, Preset> : never>;
+
+// ============================================================================
+// Runtime implementation
+// ============================================================================
+
+function isFilled(value: unknown): boolean {
+    if (value === null || value === undefined || value === false) {
+        return false;
+    }
+    if (typeof value === "string" || Array.isArray(value)) {
+        return value.length > 0;
+    }
+    if (value instanceof Map || value instanceof Set) {
+        return value.size > 0;
+    }
+    if (typeof value === "object") {
+        const prototype = Object.getPrototypeOf(value);
+        // Only plain objects are empty without keys
+        return (prototype !== Object.prototype && prototype !== null)
+            || Object.keys(value).length > 0;
+    }
+    return true;
+}
+
+/**
+ * How each preset decides a value.
+ */
+export const truthinessTests: Readonly<
+    Record<TruthinessPreset, (value: unknown) => boolean>
+> = {
+    js: Boolean,
+    strictBoolean: (value) => value === true,
+    presence: (value) => value !== null && value !== undefined,
+    emptyAware: isFilled,
+};
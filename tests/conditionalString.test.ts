@@ -1,8 +1,35 @@
-import { describe, expect, test } from "bun:test";
+import { describe, expect, spyOn, test } from "bun:test";
 import {
+    type ConditionalPartialResult,
+    type ConditionalSqlResult,
     conditionalString,
     type ConditionalStringResult,
+    createConditionalString,
+    type DefaultMaxIndeterminate,
 } from "../src/conditionalString.js";
+import { parse, type ParseTemplate, print } from "../src/ast.js";
+import { type CliIo, runCli } from "../src/cli.js";
+import type {
+    InterpolationNode,
+    LiteralNode,
+    NotNode,
+    PathNode,
+} from "../src/condition.js";
+import type { TemplateData } from "../src/data.js";
+import {
+    ConditionalStringDataError,
+    ConditionalStringSyntaxError,
+    type TemplateSyntaxError,
+} from "../src/errors.js";
+import type {
+    BranchNode,
+    EachNode,
+    IfNode,
+    TextNode,
+    ValueNode,
+} from "../src/parser.js";
+import * as parser from "../src/parser.js";
+import { cs } from "../src/tag.js";
 
 // ============================================================================
 // Type-level tests (compile-time verification)
@@ -122,182 +149,3428 @@ type Test10 = Expect<
     >
 >;
 
-// Type tests are verified at compile time - if any fail, TypeScript will error.
-// The array assignment ensures the types are evaluated.
-export const typeTests: [
-    Test1,
-    Test2,
-    Test3,
-    Test4,
-    Test5,
-    Test6,
-    Test7,
-    Test8,
-    Test9,
-    Test10,
-] = [ true, true, true, true, true, true, true, true, true, true ];
+// Test: else branch is used when condition is falsy
+type Test11 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "ORDER BY /*if:desc*/id DESC/*else*/id ASC/*endif*/",
+            { desc: false; }
+        >,
+        "ORDER BY id ASC"
+    >
+>;
 
-// ============================================================================
-// Runtime tests
-// Note: We cast to string in expects to avoid type-level validation conflicts
-// since runtime tests use non-literal strings that widen to `string`
-// ============================================================================
+// Test: elif branch is used when only its condition is truthy
+type Test12 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:a*/A/*elif:b*/B/*elif:c*/C/*else*/D/*endif*/",
+            { a: false; b: false; c: true; }
+        >,
+        "C"
+    >
+>;
 
-describe("conditionalString", () => {
-    describe("basic conditional", () => {
-        test("should include content when condition is truthy", () => {
-            const template =
-                "SELECT * FROM users WHERE 1=1 /*if:includeDeleted*/AND deleted = false/*endif*/";
-            const result = conditionalString(
-                template,
-                {
-                    includeDeleted: true,
-                } as const,
+// Test: first truthy branch wins
+type Test13 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:a*/A/*elif:b*/B/*else*/D/*endif*/",
+            { a: true; b: true; }
+        >,
+        "A"
+    >
+>;
+
+// Test: nested block inside else branch
+type Test14 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "[/*if:a*/A/*else*/B/*if:b*/b/*else*/-/*endif*//*endif*/]",
+            { a: false; b: true; }
+        >,
+        "[Bb]"
+    >
+>;
+
+// Test: indeterminate elif condition gives a union of results
+type Test15 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:a*/A/*elif:b*/B/*endif*/",
+            { a: false; b: boolean; }
+        >,
+        "B" | ""
+    >
+>;
+
+// Test: AND of two truthy conditions
+type Test16 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "SELECT * /*if:a && b*/WHERE a=1/*endif*/",
+            { a: true; b: true; }
+        >,
+        "SELECT * WHERE a=1"
+    >
+>;
+
+// Test: OR binds weaker than AND, parentheses override it
+type Test17 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "[/*if:a || b && c*/X/*endif*/][/*if:(a || b) && c*/Y/*endif*/]",
+            { a: true; b: false; c: false; }
+        >,
+        "[X][]"
+    >
+>;
+
+// Test: negation of a parenthesized expression
+type Test18 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:!(user.isAdmin || user.isOwner) && !archived*/read-only/*endif*/",
+            { user: { isAdmin: false; isOwner: false; }; archived: false; }
+        >,
+        "read-only"
+    >
+>;
+
+// Test: false short-circuits an indeterminate operand of AND
+type Test19 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "SELECT * /*if:a && b*/WHERE b/*endif*/",
+            { a: false; b: boolean; }
+        >,
+        "SELECT * "
+    >
+>;
+
+// Test: true short-circuits an indeterminate operand of OR
+type Test20 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "SELECT * /*if:b || a*/WHERE a/*endif*/",
+            { a: true; b: boolean; }
+        >,
+        "SELECT * WHERE a"
+    >
+>;
+
+// Test: indeterminate operand that decides the result gives a union
+type Test21 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "SELECT * /*if:a && b*/WHERE b/*endif*/",
+            { a: true; b: boolean; }
+        >,
+        "SELECT * WHERE b" | "SELECT * "
+    >
+>;
+
+// Test: equality against string literals
+type Test22 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:role == \"admin\"*/A/*endif*//*if:status != 'deleted'*/S/*endif*/",
+            { role: "admin"; status: "active"; }
+        >,
+        "AS"
+    >
+>;
+
+// Test: equality against a union that doesn't contain the literal
+type Test23 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:role == \"admin\"*/A/*else*/U/*endif*/",
+            { role: "user" | "guest"; }
+        >,
+        "U"
+    >
+>;
+
+// Test: equality against a union that may contain the literal is indeterminate
+type Test24 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:role == \"admin\"*/A/*else*/U/*endif*/",
+            { role: "user" | "admin"; }
+        >,
+        "A" | "U"
+    >
+>;
+
+// Test: equality against widened string is indeterminate
+type Test25 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:role == \"admin\"*/A/*endif*/",
+            { role: string; }
+        >,
+        "A" | ""
+    >
+>;
+
+// Test: numeric comparisons
+type Test26 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:limit > 0*/a/*endif*//*if:limit >= 10*/b/*endif*//*if:limit < 9.5*/c/*endif*//*if:offset <= -1*/d/*endif*/",
+            { limit: 10; offset: -2; }
+        >,
+        "abd"
+    >
+>;
+
+// Test: numeric comparison against a union of numbers
+type Test27 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "LIMIT /*if:limit > 0*/$1/*else*/ALL/*endif*/",
+            { limit: 5 | 10; }
+        >,
+        "LIMIT $1"
+    >
+>;
+
+// Test: numeric comparison against widened number is indeterminate
+type Test28 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "LIMIT /*if:limit > 0*/$1/*else*/ALL/*endif*/",
+            { limit: number; }
+        >,
+        "LIMIT $1" | "LIMIT ALL"
+    >
+>;
+
+// Test: membership in a list of literals
+type Test29 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:kind in [\"a\", \"b\"]*/AB/*elif:kind in [1, 2]*/12/*else*/-/*endif*/",
+            { kind: 2; }
+        >,
+        "12"
+    >
+>;
+
+// Test: comparisons combined with boolean operators
+type Test30 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:sortDir == \"desc\" && !(page > 1)*/first page, newest/*endif*/",
+            { sortDir: "desc"; page: 1; }
+        >,
+        "first page, newest"
+    >
+>;
+
+// Test: interpolated string literal is spliced into the result
+type Test31 = Expect<
+    Equal<
+        ConditionalStringResult<"ORDER BY /*=col*/", { col: "name"; }>,
+        "ORDER BY name"
+    >
+>;
+
+// Test: interpolated number and nested path
+type Test32 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "LIMIT /*=page.size*/ OFFSET /*=page.offset*/",
+            { page: { size: 20; offset: 40; }; }
+        >,
+        "LIMIT 20 OFFSET 40"
+    >
+>;
+
+// Test: fallback is used for missing and null values
+type Test33 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "ORDER BY /*=col ?? \"id\"*/ /*=dir ?? 'ASC'*/, /*=x*/-",
+            { dir: null; }
+        >,
+        "ORDER BY id ASC, -"
+    >
+>;
+
+// Test: union of literals gives union of results
+type Test34 = Expect<
+    Equal<
+        ConditionalStringResult<"ORDER BY id /*=dir*/", { dir: "ASC" | "DESC"; }>,
+        "ORDER BY id ASC" | "ORDER BY id DESC"
+    >
+>;
+
+// Test: widened value gives a template literal type
+type Test35 = Expect<
+    Equal<
+        ConditionalStringResult<"LIMIT /*=limit*/", { limit: number; }>,
+        `LIMIT ${number}`
+    >
+>;
+
+// Test: interpolation inside conditional blocks
+type Test36 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "SELECT * /*if:sort*/ORDER BY /*=sort*//*endif*//*if:limit*/ LIMIT /*=limit*//*endif*/",
+            { sort: "name"; limit: 0; }
+        >,
+        "SELECT * ORDER BY name"
+    >
+>;
+
+// Test: SQL placeholders are numbered for included blocks only
+type Test37 = Expect<
+    Equal<
+        ConditionalSqlResult<
+            "WHERE 1=1/*if:a*/ AND a = /*:a*//*endif*//*if:b*/ AND b = /*:b*//*endif*/ AND c = /*:c*/",
+            { a: false; b: true; c: number; }
+        >["text"],
+        "WHERE 1=1 AND b = $1 AND c = $2"
+    >
+>;
+
+// Test: Postgres placeholder is reused for a repeated path
+type Test38 = Expect<
+    Equal<
+        ConditionalSqlResult<
+            "WHERE (name ILIKE /*:term*/ OR email ILIKE /*:term*/) AND role = /*:role*/",
+            {}
+        >["text"],
+        "WHERE (name ILIKE $1 OR email ILIKE $1) AND role = $2"
+    >
+>;
+
+// Test: MySQL and named placeholders
+type Test39 = Expect<
+    Equal<
+        [
+            ConditionalSqlResult<
+                "WHERE a = /*:a*/ AND b = /*:user.id*/ AND c = /*:a*/",
+                {},
+                "mysql"
+            >["text"],
+            ConditionalSqlResult<
+                "WHERE a = /*:a*/ AND b = /*:user.id*/ AND c = /*:a*/",
+                {},
+                "named"
+            >["text"],
+        ],
+        [
+            "WHERE a = ? AND b = ? AND c = ?",
+            "WHERE a = :a AND b = :user_id AND c = :a",
+        ]
+    >
+>;
+
+// Test: each block over a tuple with separator
+type Test40 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "SELECT /*each:columns as col sep=\", \"*//*=col*//*endeach*/ FROM t",
+            { columns: readonly [ "id", "name", "email" ]; }
+        >,
+        "SELECT id, name, email FROM t"
+    >
+>;
+
+// Test: item fields in nested conditions
+type Test41 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*each:users as user sep=\"; \"*//*=user.name*//*if:user.admin*/ (admin)/*endif*//*endeach*/",
+            {
+                users: readonly [
+                    { name: "ann"; admin: true; },
+                    { name: "bob"; admin: false; },
+                ];
+            }
+        >,
+        "ann (admin); bob"
+    >
+>;
+
+// Test: empty branch for empty tuple and missing array
+type Test42 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                "IN (/*each:ids as id sep=\",\"*//*=id*//*empty*/NULL/*endeach*/)",
+                { ids: readonly []; }
+            >,
+            ConditionalStringResult<
+                "IN (/*each:ids as id sep=\",\"*//*=id*//*empty*/NULL/*endeach*/)",
+                {}
+            >,
+        ],
+        [ "IN (NULL)", "IN (NULL)" ]
+    >
+>;
+
+// Test: nested each blocks
+type Test43 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*each:groups as g sep=\" | \"*//*=g.name*/:/*each:g.tags as t sep=\",\"*//*=t*//*empty*/-/*endeach*//*endeach*/",
+            {
+                groups: readonly [
+                    { name: "a"; tags: readonly [ 1, 2 ]; },
+                    { name: "b"; tags: readonly []; },
+                ];
+            }
+        >,
+        "a:1,2 | b:-"
+    >
+>;
+
+// Test: non-tuple array falls back to string
+type Test44 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*each:ids as id sep=\",\"*//*=id*//*endeach*/",
+            { ids: number[]; }
+        >,
+        string
+    >
+>;
+
+// Test: bound parameters in each block are numbered per item
+type Test45 = Expect<
+    Equal<
+        ConditionalSqlResult<
+            "WHERE id IN (/*each:ids as id sep=\", \"*//*:id*//*endeach*/) AND x = /*:x*/",
+            { ids: readonly [ 5, 6, 5 ]; }
+        >["text"],
+        "WHERE id IN ($1, $2, $3) AND x = $4"
+    >
+>;
+
+const compiledGreeting = conditionalString.compile(
+    "Hello /*if:name*//*=name*//*else*/stranger/*endif*/!",
+);
+const compiledQuery = conditionalString.compile(
+    "SELECT * FROM users WHERE 1=1/*if:name*/ AND name = /*:name*//*endif*/",
+);
+
+// Test: compiled template infers the result from the data of each call
+type Test46 = Expect<
+    Equal<
+        ReturnType<typeof compiledGreeting<{ name: "John"; }>>,
+        "Hello John!"
+    >
+>;
+
+// Test: compiled template in SQL mode
+type Test47 = Expect<
+    Equal<
+        ReturnType<typeof compiledQuery.sql<{ name: "John"; }>>["text"],
+        "SELECT * FROM users WHERE 1=1 AND name = $1"
+    >
+>;
+
+// Test: unclosed block is a syntax error
+type Test48 = Expect<
+    Equal<
+        ConditionalStringResult<"a /*if:x*/b", { x: true; }>,
+        TemplateSyntaxError<"Unclosed if block \"/*if:x*/\"">
+    >
+>;
+
+// Test: closing marker without an open block is a syntax error
+type Test49 = Expect<
+    Equal<
+        ConditionalStringResult<"/*each:xs as x*/a/*endif*/", { xs: []; }>,
+        TemplateSyntaxError<"Unexpected \"/*endif*/\"">
+    >
+>;
+
+// Test: invalid condition is a syntax error
+type Test50 = Expect<
+    Equal<
+        ConditionalSqlResult<"/*if:include-deleted*/a/*endif*/", {}>,
+        TemplateSyntaxError<"Invalid condition \"include-deleted\"">
+    >
+>;
+
+// Test: unknown directive is a syntax error
+type Test51 = Expect<
+    Equal<
+        ConditionalStringResult<"/*iff:x*/a/*endif*/", { x: true; }>,
+        TemplateSyntaxError<"Unknown directive \"/*iff:x*/\"">
+    >
+>;
+
+// Test: ordinary comments are not directives
+type Test52 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "SELECT /* all */ * /*TODO: paging*/ /*todo: fix*/ /*end*/ FROM t/*if:x*/ x/*endif*/",
+            { x: true; }
+        >,
+        "SELECT /* all */ * /*TODO: paging*/ /*todo: fix*/ /*end*/ FROM t x"
+    >
+>;
+
+// Test: referenced paths become a nested data shape
+type Test53 = Expect<
+    Equal<
+        TemplateData<
+            "/*if:user.isAdmin && role == \"admin\"*/A/*elif:user.name*/B/*endif*/"
+        >,
+        { user: { isAdmin: unknown; name: unknown; }; role: unknown; }
+    >
+>;
+
+// Test: optional paths and fallbacks give optional properties
+type Test54 = Expect<
+    Equal<
+        TemplateData<"/*if:debug?*/D/*endif*/ LIMIT /*:limit ?? 10*/">,
+        { debug?: unknown; limit?: unknown; }
+    >
+>;
+
+// Test: each blocks require arrays of the fields their alias uses
+type Test55 = Expect<
+    Equal<
+        TemplateData<
+            "/*each:groups as g*//*=g.name*//*each:g.tags? as t*//*=t.id*//*endeach*//*endeach*/"
+        >,
+        {
+            groups: readonly {
+                name: unknown;
+                tags?: readonly { id: unknown; }[];
+            }[];
+        }
+    >
+>;
+
+// Test: non-literal templates have no requirements
+type Test56 = Expect<Equal<TemplateData<string>, unknown>>;
+
+// Test: optional paths are evaluated like other paths
+type Test57 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "/*if:debug?*/D/*else*/-/*endif*//*each:xs? as x*/[/*=x?*/]/*endeach*/",
+            { debug: true; xs: readonly [ 1 ]; }
+        >,
+        "D[1]"
+    >
+>;
+
+// Test: trim markers remove the whitespace before and after them
+type Test58 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "Start /*if:a*/A /*-if:b*/B/*endif*//*endif-*/ End",
+            { a: true; b: false; }
+        >,
+        "Start AEnd"
+    >
+>;
+
+// Test: trimmed line breaks, with blocks on their own lines
+type Test59 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "WHERE 1=1\n/*-if:a*/\nAND a = 1\n/*-endif*/\n/*-if:b*/\nAND b = 2\n/*-endif*/\nORDER BY id",
+            { a: false; b: true; }
+        >,
+        "WHERE 1=1\nAND b = 2\nORDER BY id"
+    >
+>;
+
+// Test: trim markers in SQL mode and each blocks
+type Test60 = Expect<
+    Equal<
+        ConditionalSqlResult<
+            "IN ( /*-each:ids as id sep=\", \"-*/ /*:id*/ /*-endeach-*/ )",
+            { ids: readonly [ 1, 2 ]; }
+        >["text"],
+        "IN ($1, $2)"
+    >
+>;
+
+// Test: trim markers are validated and collected like other markers
+type Test61 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<"/*-if:a*/A", { a: true; }>,
+            TemplateData<"/*-if:a-*/ /*=b-*/ /*endif*/">,
+        ],
+        [
+            TemplateSyntaxError<"Unclosed if block \"/*if:a*/\"">,
+            { a: unknown; b: unknown; },
+        ]
+    >
+>;
+
+const htmlString = createConditionalString({ syntax: "html" });
+const erbString = createConditionalString({
+    syntax: { open: "<%", close: "%>" },
+});
+
+// Test: html comments, with other comments left as text
+type Test62 = Expect<
+    Equal<
+        ReturnType<
+            typeof htmlString<
+                "<p><!--if:admin-->Admin<!--else-->Guest<!--endif--></p><!-- note -->",
+                { admin: true; }
+            >
+        >,
+        "<p>Admin</p><!-- note -->"
+    >
+>;
+
+// Test: custom delimiters
+type Test63 = Expect<
+    Equal<
+        ReturnType<
+            typeof erbString<
+                "<%if:a%>A<%endif%> <%=b%> <% ruby %>",
+                { a: true; b: "B"; }
+            >
+        >,
+        "A B <% ruby %>"
+    >
+>;
+
+// Test: SQL directive lines are removed with their line break
+type Test64 = Expect<
+    Equal<
+        ConditionalSqlResult<
+            "SELECT *\nFROM users\nWHERE 1=1\n-- #if name\n  AND name = /*:name*/\n-- #endif\n  -- #if role\n  AND role = /*:role*/\n  -- #endif\nORDER BY id -- #if x",
+            { name: "Ann"; role: false; },
+            "postgres",
+            "sql"
+        >["text"],
+        "SELECT *\nFROM users\nWHERE 1=1\n  AND name = $1\nORDER BY id -- #if x"
+    >
+>;
+
+// Test: mustache tags, with else as the empty branch of an each block
+type Test65 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "{{#each items as item sep=\", \"}}{{ item.name }}{{else}}none{{/each}} {{#if a}}A{{else if b}}B{{else}}C{{/if}} {{~#if a}} x {{/if~}} .",
+            {
+                items: readonly [ { name: "x"; }, { name: "y"; } ];
+                a: false;
+                b: true;
+            },
+            "mustache"
+        >,
+        "x, y B."
+    >
+>;
+
+// Test: profiles are validated and collected after conversion
+type Test66 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<"<!--if:a-->A", { a: true; }, "html">,
+            TemplateData<"{{#if user.admin}}{{name}}{{/if}}", "mustache">,
+        ],
+        [
+            TemplateSyntaxError<"Unclosed if block \"/*if:a*/\"">,
+            { user: { admin: unknown; }; name: unknown; },
+        ]
+    >
+>;
+
+// Test: partial evaluation drops false branches and keeps unknown ones
+type Test67 = Expect<
+    Equal<
+        ConditionalPartialResult<
+            "x/*if:a*/A/*elif:b || c*/B/*elif:d*/D/*else*/E/*endif*/y /*if:e*/E/*endif*/",
+            { a: false; c: false; d: true; e: true; }
+        >,
+        "x/*if:b*/B/*else*/D/*endif*/y E"
+    >
+>;
+
+// Test: partial evaluation simplifies conditions; aliases are unknown
+type Test68 = Expect<
+    Equal<
+        [
+            ConditionalPartialResult<
+                "/*if:!(a && b)*/N/*endif*//*if:x == 1 || !c*/M/*endif*//*if:r in [\"a\", 'b\"'] && q*/Q/*endif*/",
+                { b: true; x: 2; }
+            >,
+            ConditionalPartialResult<
+                "/*each:items as item*//*if:item.x && k*/X/*endif*//*=item.name*//*empty*//*if:k*/K/*endif*//*endeach*/",
+                { k: 1; }
+            >,
+        ],
+        [
+            "/*if:!a*/N/*endif*//*if:!c*/M/*endif*//*if:r in [\"a\", 'b\"'] && q*/Q/*endif*/",
+            "/*each:items as item*//*if:item.x*/X/*endif*//*=item.name*//*empty*/K/*endeach*/",
+        ]
+    >
+>;
+
+// Test: a partial result is a template; profiles are written C-style
+type Test69 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                ConditionalPartialResult<
+                    "{{#if a && b}}AB{{else}}-{{/if}} {{~ name ~}} .",
+                    { a: true; },
+                    "mustache"
+                >,
+                { b: false; name: "Ann"; }
+            >,
+            ConditionalPartialResult<"/*if:a*/A/*endif*/", { a: boolean; }>,
+        ],
+        [ "-Ann.", string ]
+    >
+>;
+
+// Test: indeterminate conditions give the union of all possible results
+type Test70 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                "Hello /*if:a*/World/*if:b*/ and all/*endif*//*else*//*=name*//*endif*/!",
+                { a: boolean; b: boolean; name: "you" | "me"; }
+            >,
+            ConditionalSqlResult<
+                "SELECT * /*if:a*/WHERE a = /*:a*//*endif*/",
+                { a: boolean; }
+            >["text"],
+        ],
+        [
+            | "Hello World and all!"
+            | "Hello World!"
+            | "Hello you!"
+            | "Hello me!",
+            "SELECT * WHERE a = $1" | "SELECT * ",
+        ]
+    >
+>;
+
+// Test: more indeterminate conditions than the cap fall back to string
+type Test71 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                "/*if:a*/A/*endif*//*if:b*/B/*endif*//*if:c*/C/*endif*//*if:d*/D/*endif*//*if:e*/E/*endif*/",
+                { a: boolean; b: boolean; c: boolean; d: boolean; e: boolean; }
+            >,
+            ConditionalStringResult<
+                "/*if:a*/A/*endif*//*if:b*/B/*endif*/",
+                { a: boolean; b: boolean; },
+                "c",
+                1
+            >,
+            ConditionalStringResult<
+                "/*if:a*/A/*endif*//*if:b*/B/*endif*/",
+                { a: boolean; b: true; },
+                "c",
+                1
+            >,
+        ],
+        [ string, string, "AB" | "B" ]
+    >
+>;
+
+const cappedString = createConditionalString({ maxIndeterminate: 0 });
+
+const withFlag = conditionalString.with<{ flag: boolean; }>()(
+    "A/*if:flag*/B/*endif*/",
+    { flag: true },
+);
+
+// Test: .with<Data>() accepts boolean fields; created functions use the cap
+type Test72 = Expect<
+    Equal<
+        [
+            typeof withFlag,
+            ReturnType<typeof cappedString<"/*if:a*/A/*endif*/", { a: boolean; }>>,
+        ],
+        [ "AB" | "A", string ]
+    >
+>;
+
+// Helpers building large templates for the scaling tests below
+type Count<
+    N extends number,
+    I extends unknown[] = [],
+    Text extends string = "",
+> = I["length"] extends N ? Text
+    : Count<N, [ ...I, 0 ], `${Text}${I["length"]},`>;
+
+type NestedTemplate<
+    N extends number,
+    I extends unknown[] = [],
+    Open extends string = "",
+    Close extends string = "",
+> = I["length"] extends N ? `${Open}X${Close}`
+    : NestedTemplate<
+        N,
+        [ ...I, 0 ],
+        `${Open}/*if:on*/${I["length"]},`,
+        `/*endif*/${Close}`
+    >;
+
+type SequentialTemplate<
+    N extends number,
+    I extends unknown[] = [],
+    Text extends string = "",
+> = I["length"] extends N ? Text
+    : SequentialTemplate<
+        N,
+        [ ...I, 0 ],
+        `${Text}/*if:off*/-/*elif:on*/${I["length"]},/*else*/-/*endif*/`
+    >;
+
+// Test: 50 nesting levels are evaluated
+type Test73 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<NestedTemplate<50>, { on: true; }>,
+            ConditionalPartialResult<NestedTemplate<50>, { on: true; }>,
+        ],
+        [ `${Count<50>}X`, `${Count<50>}X` ]
+    >
+>;
+
+// Test: 100 sequential blocks are evaluated
+type Test74 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                SequentialTemplate<100>,
+                { on: true; off: false; }
+            >,
+            ConditionalSqlResult<
+                `${SequentialTemplate<100>}/*:on*/`,
+                { on: true; off: false; }
+            >["text"],
+        ],
+        [ Count<100>, `${Count<100>}$1` ]
+    >
+>;
+
+const withLimit = true as boolean;
+
+const inlineTemplate = `SELECT * FROM t WHERE 1=1${
+    cs.if(true, " AND active")
+}${cs.unless(false, cs.if(withLimit, " LIMIT /*=limit*/"))}` as const;
+
+// Test: inline conditions pick literal text; templates built from it render
+type Test75 = Expect<
+    Equal<
+        [
+            ReturnType<typeof cs.if<true, "A", "B">>,
+            ReturnType<typeof cs.if<0, "A">>,
+            ReturnType<typeof cs.unless<boolean, "A", "B">>,
+            ConditionalStringResult<typeof inlineTemplate, { limit: 10; }>,
+        ],
+        [
+            "A",
+            "",
+            "A" | "B",
+            | "SELECT * FROM t WHERE 1=1 AND active LIMIT 10"
+            | "SELECT * FROM t WHERE 1=1 AND active",
+        ]
+    >
+>;
+
+// Test: clause blocks clean up the text left by conditional blocks
+type Test76 = Expect<
+    Equal<
+        [
+            ConditionalSqlResult<
+                "SELECT * FROM t /*where*/ /*if:a*/AND a = /*:a*//*endif*/ /*if:b*/OR b/*endif*/ /*endwhere*/",
+                { a: 1; b: boolean; }
+            >["text"],
+            ConditionalStringResult<
+                "SELECT /*list:, */ /*if:a*/a, /*endif*//*if:b*/b, /*endif*/c, /*endlist*/ FROM t /*having*/ /*if:b*/and b/*endif*/ /*endhaving*/",
+                { a: true; b: false; }
+            >,
+            ConditionalStringResult<"/*list:, */a/*endlist*/ /*where*/", {}>,
+            ConditionalStringResult<"/*list: */a/*endlist*/", {}>,
+        ],
+        [
+            "SELECT * FROM t WHERE a = $1 OR b" | "SELECT * FROM t WHERE a = $1",
+            "SELECT a, c FROM t",
+            TemplateSyntaxError<"Unclosed where block \"/*where*/\"">,
+            TemplateSyntaxError<"Invalid list block \"/*list: */\"">,
+        ]
+    >
+>;
+
+const withQueryPartials = conditionalString.withPartials({
+    tenant: "AND tenant_id = /*:tenantId*/",
+    notDeleted: "/*if:!withDeleted*/AND deleted_at IS NULL/*endif*/",
+    filters: "/*include:tenant*/ /*include: notDeleted */",
+    loop: "/*include:loop*/",
+});
+
+// Test: included partials are resolved in result types
+type Test77 = Expect<
+    Equal<
+        [
+            ReturnType<
+                typeof withQueryPartials.sql<
+                    "SELECT * FROM t /*where*//*include:filters*//*endwhere*/",
+                    { tenantId: 3; withDeleted: false; }
+                >
+            >["text"],
+            ConditionalStringResult<
+                "[<!--include:p-->]",
+                { a: true; },
+                "html",
+                DefaultMaxIndeterminate,
+                { p: "<!--if:a-->A<!--endif-->"; }
+            >,
+            ConditionalStringResult<"/*include:p*/", {}>,
+            ConditionalStringResult<
+                "/*include:a*/",
+                {},
+                "c",
+                DefaultMaxIndeterminate,
+                { a: "/*include:b*/"; b: "/*-include:a-*/"; }
+            >,
+            TemplateData<
+                "/*include:p*/",
+                "c",
+                { p: "/*=user.name*/"; }
+            >,
+        ],
+        [
+            "SELECT * FROM t WHERE tenant_id = $1 AND deleted_at IS NULL",
+            "[A]",
+            TemplateSyntaxError<"Unknown partial \"p\"">,
+            TemplateSyntaxError<"Recursive include of \"a\"">,
+            { user: { name: unknown; }; },
+        ]
+    >
+>;
+
+const withGuards = conditionalString.withPredicates({
+    isNumber: (value): value is number => typeof value === "number",
+    isEven: (value) => Number(value) % 2 === 0,
+});
+
+// Test: built-in predicates are modeled, custom ones need a type guard
+type Test78 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                "/*if:nonEmpty(ids)*/IN/*else*/ALL/*endif*/",
+                { ids: readonly []; }
+            >,
+            ConditionalStringResult<
+                "/*if:nonEmpty(ids)*/IN/*else*/ALL/*endif*/",
+                { ids: number[]; }
+            >,
+            ConditionalStringResult<
+                "/*if:defined(a) && empty(b) && blank(c)*/X/*endif*/",
+                { a: 0; b: ""; c: " \n"; }
+            >,
+            ReturnType<
+                typeof withGuards<
+                    "/*if:isNumber(n)*/N/*endif*/ /*if:isNumber(s)*/S/*endif*/",
+                    { n: 1; s: "1"; }
+                >
+            >,
+            ReturnType<
+                typeof withGuards<"/*if:isEven(n)*/E/*endif*/", { n: 2; }>
+            >,
+            ReturnType<
+                typeof withGuards.partial<
+                    "/*if:nonEmpty(a) && isEven(b)*/X/*endif*/",
+                    { a: "a"; }
+                >
+            >,
+        ],
+        [
+            "ALL",
+            "IN" | "ALL",
+            "X",
+            "N ",
+            "E" | "",
+            "/*if:isEven(b)*/X/*endif*/",
+        ]
+    >
+>;
+
+// Test: explained renders have the text type of conditionalString
+type Test79 = Expect<
+    Equal<
+        ReturnType<
+            typeof conditionalString.explain<
+                "/*if:a*/A/*else*/B/*endif*/",
+                { a: boolean; }
+            >
+        >["text"],
+        "A" | "B"
+    >
+>;
+
+// Test: parsed nodes of literal templates
+type Test80 = Expect<
+    Equal<
+        [
+            ParseTemplate<"a /*-if:!b*/B/*else*/C/*endif*/">,
+            ParseTemplate<"<!--each:xs as x-->[<!--=x ?? 0-->]<!--endeach-->", "html">,
+            ParseTemplate<"/*if:a*/">,
+        ],
+        [
+            [
+                TextNode<"a">,
+                IfNode<[
+                    BranchNode<NotNode<PathNode<"b", false>>, [ TextNode<"B"> ]>,
+                    BranchNode<null, [ TextNode<"C"> ]>,
+                ]>,
+            ],
+            [
+                EachNode<"xs", false, "x", "", [
+                    TextNode<"[">,
+                    ValueNode<
+                        InterpolationNode<PathNode<"x", false>, LiteralNode<0>>
+                    >,
+                    TextNode<"]">,
+                ], null>,
+            ],
+            TemplateSyntaxError<"Unclosed if block \"/*if:a*/\"">,
+        ]
+    >
+>;
+
+const emptyAware = createConditionalString({ truthiness: "emptyAware" });
+const presence = createConditionalString({ truthiness: "presence" });
+const strictBoolean = createConditionalString({ truthiness: "strictBoolean" });
+
+// Test: result types follow the truthiness preset
+type Test81 = Expect<
+    Equal<
+        [
+            ReturnType<
+                typeof emptyAware<
+                    "/*if:ids*/IN/*else*/ALL/*endif*/ /*if:n*/N/*endif*/",
+                    { ids: readonly []; n: 0; }
+                >
+            >,
+            ReturnType<
+                typeof emptyAware<"/*if:filters*/F/*endif*/", { filters: {}; }>
+            >,
+            ReturnType<
+                typeof emptyAware<"/*if:ids*/IN/*endif*/", { ids: number[]; }>
+            >,
+            ReturnType<
+                typeof presence<"/*if:a*/A/*endif*//*if:b*/B/*endif*/", {
+                    a: "";
+                    b: null;
+                }>
+            >,
+            ReturnType<
+                typeof strictBoolean<"/*if:a*/A/*endif*//*if:!b*/B/*endif*/", {
+                    a: 1;
+                    b: "yes";
+                }>
+            >,
+            ReturnType<
+                typeof emptyAware.partial<
+                    "/*if:a*/A/*endif*//*if:b*/B/*endif*/",
+                    { a: ""; }
+                >
+            >,
+        ],
+        [
+            "ALL N",
+            "",
+            "IN" | "",
+            "A",
+            "B",
+            "/*if:b*/B/*endif*/",
+        ]
+    >
+>;
+
+// Test: raw regions and escaped markers are text in every result type
+type Test82 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                "SELECT /*raw*//*+ INDEX(t) *//*if:x*/X/*endif*//*endraw*/ 1/*if:a*/ A/*endif*/",
+                { a: true; }
+            >,
+            ConditionalStringResult<"/*\\if:a*/ /*\\\\x*/ /*-\\y*/", {}>,
+            ReturnType<
+                typeof htmlString<
+                    "<!--\\if:a--> /*raw*/<!--if:b-->/*endraw*/ <!--if:b-->B<!--endif-->",
+                    { b: true; }
+                >
+            >,
+            ConditionalPartialResult<
+                "/*raw*//*if:q*/ /* c *//*endraw*//*if:a*/A/*endif*//*if:b*/B/*endif*/",
+                { a: true; }
+            >,
+            ParseTemplate<"a /*raw*//*=b*//*endraw*/ /*\\=c*/">,
+            ConditionalStringResult<"/*raw*/ /*if:a*/", {}>,
+            ConditionalStringResult<"a/*endraw*/", {}>,
+        ],
+        [
+            "SELECT /*+ INDEX(t) *//*if:x*/X/*endif*/ 1 A",
+            "/*if:a*/ /*\\x*/ /*-\\y*/",
+            "<!--if:a--> <!--if:b--> B",
+            "/*\\if:q*/ /* c */A/*if:b*/B/*endif*/",
+            [ TextNode<"a /*=b*/ /*=c*/"> ],
+            TemplateSyntaxError<"Unclosed raw block \"/*raw*/\"">,
+            TemplateSyntaxError<"Unexpected \"/*endraw*/\"">,
+        ]
+    >
+>;
+
+// Test: paths that would share a named placeholder have no result
+type Test83 = Expect<
+    Equal<
+        [
+            ConditionalSqlResult<"/*:u.x*/ /*:u_x*/", {}, "named">["text"],
+            ConditionalSqlResult<"/*:u.x*/ /*:u.x*/ /*:u_y*/", {}, "named">[
+                "text"
+            ],
+            ConditionalSqlResult<"/*:u.x*/ /*:u_x*/", {}, "postgres">["text"],
+        ],
+        [ never, ":u_x :u_x :u_y", "$1 $2" ]
+    >
+>;
+
+// Test: unions mixing truthy and falsy members are indeterminate
+type Test84 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<"/*if:n*/N/*endif*/", { n: 0 | 1; }>,
+            ConditionalStringResult<"/*if:s*/S/*endif*/", { s: "" | "x"; }>,
+            ConditionalStringResult<"/*if:b*/B/*endif*/", { b: true | null; }>,
+            ConditionalStringResult<"/*if:f*/F/*endif*/", { f: 0 | "" | null; }>,
+            ConditionalStringResult<"/*if:t*/T/*endif*/", { t: 1 | "x" | {}; }>,
+        ],
+        [ "N" | "", "S" | "", "B" | "", "", "T" ]
+    >
+>;
+
+// Test: mustache comments are removed
+type Test85 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "a{{! note }}b{{!-- {{#if x}} --}}c{{#if x}}X{{/if}}",
+            { x: true; },
+            "mustache"
+        >,
+        "abcX"
+    >
+>;
+
+// Test: an empty clause does not double the whitespace around it
+type Test86 = Expect<
+    Equal<
+        ConditionalStringResult<
+            "SELECT * FROM t /*where*/ /*if:a*/AND a/*endif*/ /*endwhere*/ ORDER BY x",
+            { a: false; }
+        >,
+        "SELECT * FROM t ORDER BY x"
+    >
+>;
+
+// Test: an empty clause removes the whitespace across the blocks it is in,
+// but not the separator of an each block
+type Test87 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                "SELECT * FROM t /*if:a*//*where*//*if:b*/AND b/*endif*//*endwhere*//*endif*/ ORDER BY x",
+                { a: true; b: false; }
+            >,
+            ConditionalStringResult<
+                "SELECT * FROM t /*include:filter*/ ORDER BY x",
+                { b: false; },
+                "c",
+                DefaultMaxIndeterminate,
+                { filter: "/*where*//*if:b*/AND b/*endif*//*endwhere*/"; }
+            >,
+            ConditionalStringResult<
+                "/*each:xs as x sep=\", \"*/ /*where*//*if:b*/AND b/*endif*//*endwhere*/x/*endeach*/",
+                { xs: readonly [ 1, 2 ]; b: false; }
+            >,
+            ConditionalStringResult<
+                "/*each:xs as x sep=\", \"*//*where*//*if:b*/AND b/*endif*//*endwhere*//*endeach*/",
+                { xs: readonly [ 1, 2 ]; b: false; }
+            >,
+        ],
+        [ "SELECT * FROM t ORDER BY x", "SELECT * FROM t ORDER BY x", "x, x", ", " ]
+    >
+>;
+
+// Test: an object all of whose paths are optional is optional too
+type Test88 = Expect<
+    Equal<
+        [
+            TemplateData<"/*if:user.isAdmin?*/A/*endif*/">,
+            TemplateData<"/*if:user.isAdmin?*/A/*endif*//*=user.name*/">,
+        ],
+        [
+            { user?: { isAdmin?: unknown; }; },
+            { user: { isAdmin?: unknown; name: unknown; }; },
+        ]
+    >
+>;
+
+// Test: unknown predicates are rejected even in branches that are not taken
+type Test89 = Expect<
+    Equal<
+        [
+            ConditionalStringResult<
+                "/*if:a*//*if:nonEmtpy(x)*/X/*endif*//*endif*/",
+                { a: false; x: 1; }
+            >,
+            ConditionalSqlResult<
+                "/*if:a || !isEven(x)*/X/*endif*/",
+                { a: true; x: 1; }
+            >,
+            ReturnType<
+                typeof withGuards<
+                    "/*if:a*/A/*elif:isEven(x)*/X/*endif*/",
+                    { a: true; x: 1; }
+                >
+            >,
+        ],
+        [
+            TemplateSyntaxError<"Unknown predicate \"nonEmtpy\"">,
+            TemplateSyntaxError<"Unknown predicate \"isEven\"">,
+            "A",
+        ]
+    >
+>;
+
+// Type tests are verified at compile time - if any fail, TypeScript will error.
+// The array assignment ensures the types are evaluated.
+export const typeTests: [
+    Test1,
+    Test2,
+    Test3,
+    Test4,
+    Test5,
+    Test6,
+    Test7,
+    Test8,
+    Test9,
+    Test10,
+    Test11,
+    Test12,
+    Test13,
+    Test14,
+    Test15,
+    Test16,
+    Test17,
+    Test18,
+    Test19,
+    Test20,
+    Test21,
+    Test22,
+    Test23,
+    Test24,
+    Test25,
+    Test26,
+    Test27,
+    Test28,
+    Test29,
+    Test30,
+    Test31,
+    Test32,
+    Test33,
+    Test34,
+    Test35,
+    Test36,
+    Test37,
+    Test38,
+    Test39,
+    Test40,
+    Test41,
+    Test42,
+    Test43,
+    Test44,
+    Test45,
+    Test46,
+    Test47,
+    Test48,
+    Test49,
+    Test50,
+    Test51,
+    Test52,
+    Test53,
+    Test54,
+    Test55,
+    Test56,
+    Test57,
+    Test58,
+    Test59,
+    Test60,
+    Test61,
+    Test62,
+    Test63,
+    Test64,
+    Test65,
+    Test66,
+    Test67,
+    Test68,
+    Test69,
+    Test70,
+    Test71,
+    Test72,
+    Test73,
+    Test74,
+    Test75,
+    Test76,
+    Test77,
+    Test78,
+    Test79,
+    Test80,
+    Test81,
+    Test82,
+    Test83,
+    Test84,
+    Test85,
+    Test86,
+    Test87,
+    Test88,
+    Test89,
+] = [
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+    true,
+];
+
+// ============================================================================
+// Runtime tests
+// Note: We cast to string in expects to avoid type-level validation conflicts
+// since runtime tests use non-literal strings that widen to `string`
+// ============================================================================
+
+describe("conditionalString", () => {
+    describe("basic conditional", () => {
+        test("should include content when condition is truthy", () => {
+            const template =
+                "SELECT * FROM users WHERE 1=1 /*if:includeDeleted*/AND deleted = false/*endif*/";
+            const result = conditionalString(
+                template,
+                {
+                    includeDeleted: true,
+                } as const,
+            );
+            expect(result).toBe(
+                "SELECT * FROM users WHERE 1=1 AND deleted = false",
+            );
+        });
+
+        test("should exclude content when condition is falsy", () => {
+            const template =
+                "SELECT * FROM users WHERE 1=1 /*if:includeDeleted*/AND deleted = false/*endif*/";
+            const result = conditionalString(
+                template,
+                {
+                    includeDeleted: false,
+                } as const,
+            );
+            expect(result).toBe("SELECT * FROM users WHERE 1=1 ");
+        });
+
+        test("should exclude content when condition key is missing", () => {
+            const template =
+                "SELECT * FROM users WHERE 1=1 /*if:includeDeleted?*/AND deleted = false/*endif*/";
+            const result = conditionalString(template, {});
+            expect(result).toBe("SELECT * FROM users WHERE 1=1 ");
+        });
+
+        test("should handle empty data object", () => {
+            const template =
+                "SELECT * FROM users /*if:flag?*/WHERE active = true/*endif*/";
+            const result = conditionalString(template, {});
+            expect(result).toBe("SELECT * FROM users ");
+        });
+    });
+
+    describe("negation", () => {
+        test("should include content when negated condition is falsy", () => {
+            const template =
+                "SELECT * FROM users /*if:!skipDeleted*/WHERE deleted = false/*endif*/";
+            const result = conditionalString(
+                template,
+                { skipDeleted: false } as const,
+            );
+            expect(result).toBe("SELECT * FROM users WHERE deleted = false");
+        });
+
+        test("should exclude content when negated condition is truthy", () => {
+            const template =
+                "SELECT * FROM users /*if:!skipDeleted*/WHERE deleted = false/*endif*/";
+            const result = conditionalString(
+                template,
+                { skipDeleted: true } as const,
+            );
+            expect(result).toBe("SELECT * FROM users ");
+        });
+
+        test("should include content when negated condition key is missing", () => {
+            const template =
+                "SELECT * FROM users /*if:!skipDeleted?*/WHERE deleted = false/*endif*/";
+            const result = conditionalString(template, {});
+            expect(result).toBe("SELECT * FROM users WHERE deleted = false");
+        });
+    });
+
+    describe("dot notation (nested properties)", () => {
+        test("should resolve nested property", () => {
+            const template =
+                "SELECT * FROM orders /*if:user.isAdmin*/WHERE status = 'all'/*endif*/";
+            const result = conditionalString(
+                template,
+                {
+                    user: { isAdmin: true },
+                } as const,
+            );
+            expect(result).toBe("SELECT * FROM orders WHERE status = 'all'");
+        });
+
+        test("should handle missing nested property", () => {
+            const template =
+                "SELECT * FROM orders /*if:user.isAdmin?*/WHERE status = 'all'/*endif*/";
+            const result = conditionalString(template, { user: {} });
+            expect(result).toBe("SELECT * FROM orders ");
+        });
+
+        test("should handle missing parent object", () => {
+            const template =
+                "SELECT * FROM orders /*if:user.isAdmin?*/WHERE status = 'all'/*endif*/";
+            const result = conditionalString(template, {});
+            expect(result).toBe("SELECT * FROM orders ");
+        });
+
+        test("should handle deeply nested property", () => {
+            const template =
+                "SELECT * FROM data /*if:config.features.beta.enabled*/WHERE beta = true/*endif*/";
+            const result = conditionalString(
+                template,
+                {
+                    config: { features: { beta: { enabled: true } } },
+                } as const,
+            );
+            expect(result).toBe("SELECT * FROM data WHERE beta = true");
+        });
+
+        test("should handle negated nested property", () => {
+            const template =
+                "SELECT * FROM orders /*if:!user.isGuest*/WHERE user_id IS NOT NULL/*endif*/";
+            const result = conditionalString(
+                template,
+                {
+                    user: { isGuest: false },
+                } as const,
+            );
+            expect(result).toBe(
+                "SELECT * FROM orders WHERE user_id IS NOT NULL",
+            );
+        });
+    });
+
+    describe("nested conditions", () => {
+        test("should handle nested conditions (both truthy)", () => {
+            const template =
+                "SELECT * /*if:a*/FROM users /*if:b*/WHERE active = true/*endif*//*endif*/";
+            const result = conditionalString(
+                template,
+                { a: true, b: true } as const,
+            );
+            expect(result).toBe("SELECT * FROM users WHERE active = true");
+        });
+
+        test("should handle nested conditions (outer truthy, inner falsy)", () => {
+            const template =
+                "SELECT * /*if:a*/FROM users /*if:b*/WHERE active = true/*endif*//*endif*/";
+            const result = conditionalString(
+                template,
+                { a: true, b: false } as const,
+            );
+            expect(result).toBe("SELECT * FROM users ");
+        });
+
+        test("should handle nested conditions (outer falsy)", () => {
+            const template =
+                "SELECT * /*if:a*/FROM users /*if:b*/WHERE active = true/*endif*//*endif*/";
+            const result = conditionalString(
+                template,
+                { a: false, b: true } as const,
+            );
+            expect(result).toBe("SELECT * ");
+        });
+    });
+
+    describe("else and elif branches", () => {
+        test("should use if branch when condition is truthy", () => {
+            const template =
+                "SELECT * FROM users ORDER BY /*if:desc*/id DESC/*else*/id ASC/*endif*/";
+            const result = conditionalString(template, { desc: true } as const);
+            expect(result).toBe("SELECT * FROM users ORDER BY id DESC");
+        });
+
+        test("should use else branch when condition is falsy", () => {
+            const template =
+                "SELECT * FROM users ORDER BY /*if:desc*/id DESC/*else*/id ASC/*endif*/";
+            const result = conditionalString(template, { desc: false } as const);
+            expect(result).toBe("SELECT * FROM users ORDER BY id ASC");
+        });
+
+        test("should use first elif branch whose condition is truthy", () => {
+            const template =
+                "/*if:a*/A/*elif:b*/B/*elif:c*/C/*else*/D/*endif*/";
+            const result = conditionalString(
+                template,
+                { a: false, b: true, c: true } as const,
+            );
+            expect(result).toBe("B");
+        });
+
+        test("should use else branch when no condition is truthy", () => {
+            const template =
+                "/*if:a*/A/*elif:b*/B/*elif:c*/C/*else*/D/*endif*/";
+            const result = conditionalString(
+                template,
+                { a: false, b: false, c: false } as const,
+            );
+            expect(result).toBe("D");
+        });
+
+        test("should remove block when no branch matches and there is no else", () => {
+            const template = "[/*if:a*/A/*elif:!b*/B/*endif*/]";
+            const result = conditionalString(
+                template,
+                { a: false, b: true } as const,
+            );
+            expect(result).toBe("[]");
+        });
+
+        test("should support nested blocks inside any branch", () => {
+            const template =
+                "[/*if:a*/A/*if:x*/x/*endif*//*elif:b*/B/*if:y*/y/*else*/-/*endif*//*else*/C/*endif*/]";
+            expect(
+                conditionalString(
+                    template,
+                    { a: true, x: true, b: false, y: false } as const,
+                ),
+            ).toBe("[Ax]");
+            expect(
+                conditionalString(
+                    template,
+                    { a: false, x: false, b: true, y: false } as const,
+                ),
+            ).toBe("[B-]");
+            expect(
+                conditionalString(
+                    template,
+                    { a: false, x: false, b: false, y: false } as const,
+                ),
+            ).toBe("[C]");
+        });
+    });
+
+    describe("boolean expressions", () => {
+        test("should require both operands of &&", () => {
+            const template = "SELECT * /*if:a && b*/WHERE x/*endif*/";
+            expect(
+                conditionalString(template, { a: true, b: true } as const),
+            ).toBe("SELECT * WHERE x");
+            expect(
+                conditionalString(template, { a: true, b: false } as const),
+            ).toBe("SELECT * ");
+        });
+
+        test("should require any operand of ||", () => {
+            const template = "SELECT * /*if:a || b*/WHERE x/*endif*/";
+            expect(
+                conditionalString(template, { a: false, b: true } as const),
+            ).toBe("SELECT * WHERE x");
+            expect(
+                conditionalString(template, { a: false, b: false } as const),
+            ).toBe("SELECT * ");
+        });
+
+        test("should give && precedence over ||", () => {
+            const template = "/*if:a || b && c*/X/*endif*/";
+            const result = conditionalString(
+                template,
+                { a: true, b: false, c: false } as const,
+            );
+            expect(result).toBe("X");
+        });
+
+        test("should respect parentheses", () => {
+            const template =
+                "/*if:(user.isAdmin || user.isOwner) && !archived*/edit/*endif*/";
+            expect(
+                conditionalString(
+                    template,
+                    {
+                        user: { isAdmin: false, isOwner: true },
+                        archived: false,
+                    } as const,
+                ),
+            ).toBe("edit");
+            expect(
+                conditionalString(
+                    template,
+                    {
+                        user: { isAdmin: false, isOwner: true },
+                        archived: true,
+                    } as const,
+                ),
+            ).toBe("");
+        });
+
+        test("should negate a parenthesized expression", () => {
+            const template = "/*if:!(a && b)*/X/*endif*/";
+            expect(
+                conditionalString(template, { a: true, b: true } as const),
+            ).toBe("");
+            expect(
+                conditionalString(template, { a: true, b: false } as const),
+            ).toBe("X");
+        });
+
+        test("should allow whitespace around operators", () => {
+            const template = "/*if: a&&!b ||c */X/*endif*/";
+            const result = conditionalString(
+                template,
+                { a: true, b: false, c: false } as const,
+            );
+            expect(result).toBe("X");
+        });
+
+        test("should support expressions in elif", () => {
+            const template = "/*if:a*/A/*elif:b && c*/BC/*else*/D/*endif*/";
+            const result = conditionalString(
+                template,
+                { a: false, b: true, c: true } as const,
+            );
+            expect(result).toBe("BC");
+        });
+
+        test("should throw on malformed expression", () => {
+            const template = "/*if:a && (b || c*/X/*endif*/" as string;
+            expect(() => conditionalString(template, {})).toThrow(
+                "Invalid condition",
+            );
+        });
+    });
+
+    describe("comparisons", () => {
+        test("should compare with string literals", () => {
+            const template =
+                "SELECT * FROM users /*if:role == \"admin\"*/WHERE 1=1/*else*/WHERE owner_id = $1/*endif*/";
+            expect(conditionalString(template, { role: "admin" } as const))
+                .toBe("SELECT * FROM users WHERE 1=1");
+            expect(conditionalString(template, { role: "user" } as const))
+                .toBe("SELECT * FROM users WHERE owner_id = $1");
+        });
+
+        test("should support single quotes and !=", () => {
+            const template =
+                "SELECT * FROM orders /*if:status != 'deleted'*/WHERE visible/*endif*/";
+            expect(conditionalString(template, { status: "active" } as const))
+                .toBe("SELECT * FROM orders WHERE visible");
+            expect(conditionalString(template, { status: "deleted" } as const))
+                .toBe("SELECT * FROM orders ");
+        });
+
+        test("should use strict equality", () => {
+            const template = "/*if:count == 1*/one/*endif*/";
+            expect(conditionalString(template, { count: "1" } as const))
+                .toBe("");
+            expect(conditionalString(template, { count: 1 } as const))
+                .toBe("one");
+        });
+
+        test("should compare numbers", () => {
+            const template =
+                "/*if:n > 0*/a/*endif*//*if:n >= 10*/b/*endif*//*if:n < 9.5*/c/*endif*//*if:n <= -1*/d/*endif*/";
+            expect(conditionalString(template, { n: 10 } as const))
+                .toBe("ab");
+            expect(conditionalString(template, { n: -3 } as const))
+                .toBe("cd");
+        });
+
+        test("should treat relational comparison of non-numbers as false", () => {
+            const template = "/*if:n > 0*/a/*endif*//*if:n <= 0*/b/*endif*/";
+            expect(conditionalString(template, { n: "5" } as const)).toBe("");
+            expect(conditionalString(template, { n: undefined })).toBe("");
+        });
+
+        test("should compare with true, false and null", () => {
+            const template =
+                "/*if:a == true*/A/*endif*//*if:b == false*/B/*endif*//*if:c == null*/C/*endif*/";
+            const result = conditionalString(
+                template,
+                { a: true, b: false, c: null } as const,
+            );
+            expect(result).toBe("ABC");
+        });
+
+        test("should check membership in a list", () => {
+            const template =
+                "/*if:kind in [\"a\", 'b']*/AB/*elif:kind in [1, 2]*/12/*elif:kind in []*/never/*else*/-/*endif*/";
+            expect(conditionalString(template, { kind: "b" } as const))
+                .toBe("AB");
+            expect(conditionalString(template, { kind: 2 } as const))
+                .toBe("12");
+            expect(conditionalString(template, { kind: "c" } as const))
+                .toBe("-");
+        });
+
+        test("should combine comparisons with boolean operators", () => {
+            const template =
+                "/*if:sortDir == \"desc\" && !(page > 1)*/newest/*endif*/";
+            expect(
+                conditionalString(
+                    template,
+                    { sortDir: "desc", page: 1 } as const,
+                ),
+            ).toBe("newest");
+            expect(
+                conditionalString(
+                    template,
+                    { sortDir: "desc", page: 2 } as const,
+                ),
+            ).toBe("");
+        });
+
+        test("should throw on malformed comparison", () => {
+            const invalid = [
+                "/*if:a ==*/X/*endif*/",
+                "/*if:a in [b]*/X/*endif*/",
+                "/*if:a in [1,]*/X/*endif*/",
+                "/*if:a == 1.2.3*/X/*endif*/",
+            ];
+            for (const template of invalid) {
+                expect(() => conditionalString(template, {})).toThrow(
+                    "Invalid condition",
+                );
+            }
+        });
+    });
+
+    describe("interpolation", () => {
+        test("should insert value by path", () => {
+            const template =
+                "SELECT * FROM users ORDER BY /*=sort.column*/ /*=sort.dir*/";
+            const result = conditionalString(
+                template,
+                { sort: { column: "name", dir: "DESC" } } as const,
+            );
+            expect(result).toBe("SELECT * FROM users ORDER BY name DESC");
+        });
+
+        test("should convert numbers and booleans to text", () => {
+            const template = "LIMIT /*=limit*/ -- /*=flag*/";
+            const result = conditionalString(
+                template,
+                { limit: 10, flag: false } as const,
+            );
+            expect(result).toBe("LIMIT 10 -- false");
+        });
+
+        test("should insert empty string for missing values", () => {
+            const template = "[/*=missing?*/][/*=empty*/]";
+            const result = conditionalString(
+                template,
+                { empty: null } as const,
+            );
+            expect(result).toBe("[][]");
+        });
+
+        test("should use fallback for null and undefined", () => {
+            const template =
+                "ORDER BY /*=col ?? \"id\"*/ /*=dir ?? 'ASC'*/ LIMIT /*=limit ?? 100*/";
+            expect(conditionalString(template, { dir: null } as const))
+                .toBe("ORDER BY id ASC LIMIT 100");
+            expect(
+                conditionalString(
+                    template,
+                    { col: "name", dir: "DESC", limit: 0 } as const,
+                ),
+            ).toBe("ORDER BY name DESC LIMIT 0");
+        });
+
+        test("should only insert values of included blocks", () => {
+            const template =
+                "SELECT */*if:limit*/ LIMIT /*=limit*//*else*/ -- no limit for /*=user*//*endif*/";
+            expect(
+                conditionalString(
+                    template,
+                    { limit: 5, user: "admin" } as const,
+                ),
+            ).toBe("SELECT * LIMIT 5");
+            expect(
+                conditionalString(
+                    template,
+                    { limit: null, user: "admin" } as const,
+                ),
+            ).toBe("SELECT * -- no limit for admin");
+        });
+
+        test("should not process markers in inserted values", () => {
+            const template = "Hello /*=name*/!";
+            const result = conditionalString(
+                template,
+                { name: "/*if:x*/X/*endif*/ /*=other*/", other: "?" } as const,
+            );
+            expect(result).toBe("Hello /*if:x*/X/*endif*/ /*=other*/!");
+        });
+
+        test("should throw on malformed value expression", () => {
+            const invalid = [
+                "/*=1*/",
+                "/*=a ?? b*/",
+                "/*=a ??*/",
+                "/*=a b*/",
+            ];
+            for (const template of invalid) {
+                expect(() => conditionalString(template, {})).toThrow(
+                    "Invalid condition",
+                );
+            }
+        });
+    });
+
+    describe("sql mode", () => {
+        const template = `SELECT * FROM users WHERE 1=1
+/*if:searchTerm?*/AND (name ILIKE /*:searchTerm*/ OR email ILIKE /*:searchTerm*/)/*endif*/
+/*if:role?*/AND role = /*:role*/ /*endif*/
+/*if:activeOnly?*/AND active = true/*endif*/
+LIMIT /*:limit ?? 100*/`;
+
+        test("should bind values with Postgres placeholders by default", () => {
+            const query = conditionalString.sql(
+                template,
+                { searchTerm: "%john%", role: "admin", limit: 10 } as const,
+            );
+            expect(query.text).toBe(`SELECT * FROM users WHERE 1=1
+AND (name ILIKE $1 OR email ILIKE $1)
+AND role = $2 
+
+LIMIT $3`);
+            expect(query.values).toEqual([ "%john%", "admin", 10 ]);
+        });
+
+        test("should renumber placeholders after a removed block", () => {
+            const query = conditionalString.sql(
+                template,
+                { role: "admin", activeOnly: true } as const,
+            );
+            expect(query.text).toBe(`SELECT * FROM users WHERE 1=1
+
+AND role = $1 
+AND active = true
+LIMIT $2`);
+            expect(query.values).toEqual([ "admin", 100 ]);
+        });
+
+        test("should bind values with ? placeholders", () => {
+            for (const placeholder of [ "mysql", "sqlite" ] as const) {
+                const query = conditionalString.sql(
+                    template,
+                    { searchTerm: "%john%", limit: 10 } as const,
+                    { placeholder },
+                );
+                expect(query.text).toBe(`SELECT * FROM users WHERE 1=1
+AND (name ILIKE ? OR email ILIKE ?)
+
+
+LIMIT ?`);
+                expect(query.values).toEqual([ "%john%", "%john%", 10 ]);
+            }
+        });
+
+        test("should bind values with named placeholders", () => {
+            const query = conditionalString.sql(
+                "SELECT * FROM orders WHERE user_id = /*:user.id*/ /*if:status*/AND status = /*:status*//*endif*/",
+                { user: { id: 7 }, status: "open" } as const,
+                { placeholder: "named" },
+            );
+            expect(query.text).toBe(
+                "SELECT * FROM orders WHERE user_id = :user_id AND status = :status",
+            );
+            expect(query.values).toEqual({ user_id: 7, status: "open" });
+        });
+
+        test("should reject paths that share a named placeholder", () => {
+            const template = "/*:u.x*/ /*:u_x*/" as string;
+            const data = { u: { x: 1 }, u_x: 2 };
+            expect(() =>
+                conditionalString.sql(template, data, { placeholder: "named" })
+            ).toThrow(ConditionalStringDataError);
+            expect(() =>
+                conditionalString.sql(template, data, { placeholder: "named" })
+            ).toThrow("Parameter \"u_x\" has the same name as \"u.x\"");
+            expect(
+                conditionalString.sql("/*:u.x*/ /*:u.x*/" as string, data, {
+                    placeholder: "named",
+                }).values,
+            ).toEqual({ u_x: 1 });
+        });
+
+        test("should bind null for missing values", () => {
+            const query = conditionalString.sql(
+                "UPDATE users SET deleted_at = /*:deletedAt?*/",
+                {},
+            );
+            expect(query.values).toEqual([ null ]);
+        });
+
+        test("should combine bound values with interpolation", () => {
+            const query = conditionalString.sql(
+                "SELECT * FROM /*=table*/ WHERE id = /*:id*/",
+                { table: "users", id: 1 } as const,
+            );
+            expect(query.text).toBe("SELECT * FROM users WHERE id = $1");
+            expect(query.values).toEqual([ 1 ]);
+        });
+
+        test("should leave binding markers alone outside sql mode", () => {
+            const result = conditionalString(
+                "SELECT * FROM users WHERE id = /*:id*/",
+                { id: 1 } as const,
+            );
+            expect(result).toBe("SELECT * FROM users WHERE id = /*:id*/");
+        });
+    });
+
+    describe("each blocks", () => {
+        test("should repeat body for each item with separator", () => {
+            const template =
+                "SELECT /*each:columns as col sep=\", \"*//*=col*//*endeach*/ FROM users";
+            const result = conditionalString(
+                template,
+                { columns: [ "id", "name", "email" ] } as const,
+            );
+            expect(result).toBe("SELECT id, name, email FROM users");
+        });
+
+        test("should repeat body without separator", () => {
+            const template = "/*each:xs as x*/[/*=x*/]/*endeach*/";
+            const result = conditionalString(
+                template,
+                { xs: [ 1, 2 ] } as const,
+            );
+            expect(result).toBe("[1][2]");
+        });
+
+        test("should support item fields in nested conditions", () => {
+            const template =
+                "/*each:users as user sep='; '*//*=user.name*//*if:user.role == \"admin\"*/ (admin)/*elif:!user.active*/ (inactive)/*endif*//*endeach*/";
+            const result = conditionalString(
+                template,
+                {
+                    users: [
+                        { name: "ann", role: "admin", active: true },
+                        { name: "bob", role: "user", active: false },
+                        { name: "cid", role: "user", active: true },
+                    ],
+                } as const,
+            );
+            expect(result).toBe("ann (admin); bob (inactive); cid");
+        });
+
+        test("should use empty branch for empty or missing array", () => {
+            const template =
+                "WHERE id IN (/*each:ids? as id sep=\",\"*//*=id*//*empty*/NULL/*endeach*/)";
+            expect(conditionalString(template, { ids: [] } as const))
+                .toBe("WHERE id IN (NULL)");
+            expect(conditionalString(template, {}))
+                .toBe("WHERE id IN (NULL)");
+            expect(conditionalString(template, { ids: [ 3 ] } as const))
+                .toBe("WHERE id IN (3)");
+        });
+
+        test("should support nested each blocks", () => {
+            const template =
+                "/*each:groups as g sep=\" | \"*//*=g.name*/:/*each:g.tags as t sep=\",\"*//*=t*//*empty*/-/*endeach*//*empty*/none/*endeach*/";
+            expect(
+                conditionalString(
+                    template,
+                    {
+                        groups: [
+                            { name: "a", tags: [ 1, 2 ] },
+                            { name: "b", tags: [] },
+                        ],
+                    } as const,
+                ),
+            ).toBe("a:1,2 | b:-");
+            expect(conditionalString(template, { groups: [] } as const))
+                .toBe("none");
+        });
+
+        test("should support each blocks inside conditional blocks", () => {
+            const template =
+                "SELECT * FROM t/*if:ids?*/ WHERE id IN (/*each:ids? as id sep=\",\"*//*=id*//*endeach*/)/*endif*/";
+            expect(conditionalString(template, { ids: [ 1, 2 ] } as const))
+                .toBe("SELECT * FROM t WHERE id IN (1,2)");
+            expect(conditionalString(template, {}))
+                .toBe("SELECT * FROM t");
+        });
+
+        test("should not rewrite string literals or other paths", () => {
+            const template =
+                "/*each:items as item*//*if:item == \"item\" || items*/x/*endif*//*endeach*/";
+            const result = conditionalString(
+                template,
+                { items: [ "item", "other" ] } as const,
+            );
+            expect(result).toBe("xx");
+        });
+
+        test("should bind parameters per item in sql mode", () => {
+            const query = conditionalString.sql(
+                "INSERT INTO users (name, age) VALUES /*each:rows as row sep=\", \"*/(/*:row.name*/, /*:row.age*/)/*endeach*/",
+                {
+                    rows: [
+                        { name: "ann", age: 30 },
+                        { name: "bob", age: 40 },
+                    ],
+                } as const,
+            );
+            expect(query.text).toBe(
+                "INSERT INTO users (name, age) VALUES ($1, $2), ($3, $4)",
+            );
+            expect(query.values).toEqual([ "ann", 30, "bob", 40 ]);
+        });
+
+        test("should throw on unclosed or invalid each block", () => {
+            expect(() =>
+                conditionalString("/*each:xs as x*/x" as string, {})
+            ).toThrow("Unclosed each block");
+            expect(() =>
+                conditionalString(
+                    "/*each:xs*/x/*endeach*/" as string,
+                    { xs: [ 1 ] },
+                )
+            ).toThrow("Invalid each block");
+        });
+
+        test("should throw when a nested block reuses an alias", () => {
+            const template =
+                "/*each:xs as x*//*each:x.ys as x*//*endeach*//*endeach*/" as string;
+            expect(() =>
+                conditionalString(template, { xs: [ { ys: [] } ] })
+            ).toThrow("reuses alias");
+        });
+    });
+
+    describe("sql clauses", () => {
+        test("should drop an empty where clause and a leading AND/OR", () => {
+            const template =
+                "SELECT * FROM t /*where*/ /*if:a*/AND a = /*:a*//*endif*/ /*if:b*/or b/*endif*/ /*endwhere*/" as string;
+
+            expect(conditionalString.sql(template, { a: 1, b: true })).toEqual({
+                text: "SELECT * FROM t WHERE a = $1 or b",
+                values: [ 1 ],
+            });
+            expect(conditionalString(template, { a: 0, b: true })).toBe(
+                "SELECT * FROM t WHERE b",
+            );
+            expect(conditionalString(template, { a: 0, b: false })).toBe(
+                "SELECT * FROM t",
+            );
+            expect(
+                conditionalString("/*having*/ and(x) /*endhaving*/", {}),
+            ).toBe("HAVING (x)");
+            expect(conditionalString("/*where*/android/*endwhere*/", {}))
+                .toBe("WHERE android");
+        });
+
+        test("should not double the whitespace around an empty clause", () => {
+            const template =
+                "SELECT * FROM t /*where*/ /*if:a*/AND a/*endif*/ /*endwhere*/ ORDER BY x" as string;
+
+            expect(conditionalString(template, { a: false })).toBe(
+                "SELECT * FROM t ORDER BY x",
+            );
+            expect(conditionalString(template, { a: true })).toBe(
+                "SELECT * FROM t WHERE a ORDER BY x",
+            );
+            expect(
+                conditionalString(
+                    "SELECT *\nFROM t\n/*where*/\n/*if:a*/AND a/*endif*/\n/*endwhere*/\nORDER BY x" as string,
+                    { a: false },
+                ),
+            ).toBe("SELECT *\nFROM t\nORDER BY x");
+        });
+
+        test("should remove the whitespace across the blocks a clause is in", () => {
+            const filter = "/*where*//*if:b*/AND b/*endif*//*endwhere*/";
+            const queries = conditionalString.withPartials({ filter });
+            const nested =
+                `SELECT * FROM t /*if:a*/${filter}/*endif*/ ORDER BY x` as string;
+
+            expect(conditionalString(nested, { a: true, b: false })).toBe(
+                "SELECT * FROM t ORDER BY x",
+            );
+            expect(
+                conditionalString.explain(nested, { a: true, b: false }).text,
+            ).toBe("SELECT * FROM t ORDER BY x");
+            expect(
+                queries(
+                    "SELECT * FROM t /*include:filter*/ ORDER BY x" as string,
+                    { b: false },
+                ),
+            ).toBe("SELECT * FROM t ORDER BY x");
+        });
+
+        test("should keep each separators before an empty clause", () => {
+            const data = { xs: [ 1, 2 ], b: false };
+            expect(
+                conditionalString(
+                    "/*each:xs as x sep=\", \"*/ /*where*//*if:b*/AND b/*endif*//*endwhere*/x/*endeach*/" as string,
+                    data,
+                ),
+            ).toBe("x, x");
+            expect(
+                conditionalString(
+                    "/*each:xs as x sep=\", \"*//*where*//*if:b*/AND b/*endif*//*endwhere*//*endeach*/" as string,
+                    data,
+                ),
+            ).toBe(", ");
+        });
+
+        test("should remove dangling and repeated list separators", () => {
+            const template =
+                "SET /*list:, */ /*if:a*/a = 1, /*endif*/ , /*if:b*/b = 2,/*endif*/ /*endlist*/ WHERE" as string;
+
+            expect(conditionalString(template, { a: true, b: true })).toBe(
+                "SET a = 1, b = 2 WHERE",
+            );
+            expect(conditionalString(template, { a: false, b: true })).toBe(
+                "SET b = 2 WHERE",
+            );
+            expect(conditionalString(template, { a: false, b: false })).toBe(
+                "SET WHERE",
+            );
+            expect(
+                conditionalString(
+                    "/*list: AND */AND a AND  AND b AND/*endlist*/",
+                    {},
+                ),
+            ).toBe("a AND b");
+            expect(
+                conditionalString(
+                    "/*list:$&*/$&a$&$&b/*endlist*/",
+                    {},
+                ),
+            ).toBe("a$&b");
+        });
+
+        test("should work in each blocks, profiles and partial evaluation", () => {
+            expect(
+                conditionalString(
+                    "/*list:, *//*each:cols as col*//*if:col.on*//*=col.name*/, /*endif*//*endeach*//*endlist*/",
+                    {
+                        cols: [
+                            { on: true, name: "a" },
+                            { on: false, name: "b" },
+                            { on: true, name: "c" },
+                        ],
+                    },
+                ),
+            ).toBe("a, c");
+            expect(
+                createConditionalString({ syntax: "sql" })(
+                    "SELECT *\nFROM t\n-- #where\n-- #if a\nAND a\n-- #endif\n-- #endwhere\n",
+                    { a: true } as const,
+                ),
+            ).toBe("SELECT *\nFROM t\nWHERE a");
+            expect(
+                createConditionalString({ syntax: "mustache" })(
+                    "{{#list ,}}a,{{#if b}}b{{/if}}{{/list}}",
+                    { b: false } as const,
+                ),
+            ).toBe("a");
+            expect(
+                conditionalString.partial(
+                    "/*where*//*if:a*/a/*endif*//*if:b*/ and b/*endif*//*endwhere*/",
+                    { a: false } as const,
+                ),
+            ).toBe("/*where*//*if:b*/ and b/*endif*//*endwhere*/");
+        });
+
+        test("should reject misplaced clause markers", () => {
+            const message = (template: string) => {
+                try {
+                    conditionalString(template, {});
+                }
+                catch (error) {
+                    return (error as ConditionalStringSyntaxError).reason;
+                }
+            };
+
+            expect(message("/*where*/a" as string)).toBe(
+                "Unclosed where block \"/*where*/\"",
+            );
+            expect(message("/*list: */a/*endlist*/" as string)).toBe(
+                "Invalid list block \"/*list: */\"",
+            );
+            expect(
+                message("/*if:a*//*having*/a/*endif*//*endhaving*/" as string),
+            ).toBe("Unexpected \"/*endif*/\"");
+        });
+    });
+
+    describe("partials", () => {
+        test("should include partials evaluated against the same data", () => {
+            const queries = withQueryPartials.withPartials({
+                byIds:
+                    "/*where*//*include:filters*/ AND id IN (/*list:, *//*each:ids as id*//*:id*/, /*endeach*//*endlist*/)/*endwhere*/",
+            });
+
+            expect(
+                queries.sql("SELECT * FROM t /*include:byIds*/" as string, {
+                    tenantId: 3,
+                    withDeleted: true,
+                    ids: [ 1, 2 ],
+                }),
+            ).toEqual({
+                text: "SELECT * FROM t WHERE tenant_id = $1  AND id IN ($2, $3)",
+                values: [ 3, 1, 2 ],
+            });
+            expect(
+                queries.compile("/*include:notDeleted*/").template,
+            ).toBe("/*include:notDeleted*/");
+            expect(
+                queries.partial(
+                    "/*-include:notDeleted-*/ x" as string,
+                    { withDeleted: false },
+                ),
+            ).toBe("AND deleted_at IS NULLx");
+        });
+
+        test("should use the syntax profile and replace partials", () => {
+            const html = createConditionalString({
+                syntax: "html",
+                partials: { p: "<!--if:a-->A<!--endif-->" },
+            });
+
+            expect(html("[<!--include:p-->]", { a: true } as const)).toBe("[A]");
+            expect(
+                html.withPartials({ p: "B" })("[<!--include:p-->]", {}),
+            ).toBe("[B]");
+        });
+
+        test("should reject unknown, invalid and recursive partials", () => {
+            const queries = conditionalString.withPartials({
+                a: "x/*include:b*/",
+                b: "/*include: a */",
+                open: "/*if:a*/",
+                value: "/*=missing*/",
+            });
+            const message = (template: string) => {
+                try {
+                    queries(template, {}, { strict: true });
+                }
+                catch (error) {
+                    return (error as Error).message;
+                }
+            };
+
+            expect(message("/*include:a*/" as string)).toBe(
+                "Recursive include of \"a\" at line 1, column 1\n/*include: a */\n^",
+            );
+            expect(message("/*include:toString*/" as string)).toBe(
+                "Unknown partial \"toString\" at line 1, column 1\n/*include:toString*/\n^",
+            );
+            expect(message("/*include:open*/" as string)).toStartWith(
+                "Unclosed if block \"/*if:a*/\"",
+            );
+            expect(message("a /*include:value*/" as string)).toBe(
+                "Missing value \"missing\" in \"/*=missing*/\" at line 1, column 1\n/*=missing*/\n^",
+            );
+        });
+    });
+
+    describe("predicates", () => {
+        test("should call built-in predicates", () => {
+            const template =
+                "/*if:nonEmpty(ids)*/IN/*elif:empty(name)*/EMPTY/*elif:blank(title)*/BLANK/*elif:defined(id?)*/ID/*endif*/";
+
+            expect(
+                conditionalString(template as string, { ids: [ 1 ] }),
+            ).toBe("IN");
+            expect(
+                conditionalString(template as string, { ids: [], name: "" }),
+            ).toBe("EMPTY");
+            expect(
+                conditionalString(template as string, {
+                    name: "a",
+                    title: " \n",
+                }),
+            ).toBe("BLANK");
+            expect(
+                conditionalString(template as string, {
+                    name: "a",
+                    title: "t",
+                    id: 0,
+                }),
+            ).toBe("ID");
+            expect(
+                conditionalString(template as string, {
+                    name: [ 1 ],
+                    title: "t",
+                }),
+            ).toBe("");
+        });
+
+        test("should call registered predicates", () => {
+            const queries = withGuards.withPredicates({
+                empty: (value) => value === 0,
+            });
+            const template =
+                "SELECT * FROM t /*where*//*if:isEven(page)*/AND even/*endif*/ /*if:empty(count)*/AND none/*endif*//*endwhere*/";
+
+            expect(queries(template as string, { page: 2, count: 0 })).toBe(
+                "SELECT * FROM t WHERE even AND none",
+            );
+            expect(queries(template as string, { page: 1, count: [] })).toBe(
+                "SELECT * FROM t",
+            );
+            expect(
+                queries.compile("/*if:isNumber(n)*/N/*endif*/")({ n: 1 }),
+            ).toBe("N");
+        });
+
+        test("should resolve calls with known arguments in partial templates", () => {
+            expect(
+                withGuards.partial(
+                    "/*if:isEven(a) && nonEmpty(b)*/X/*endif*//*if:isNumber(c)*/Y/*endif*/" as string,
+                    { a: 2 },
+                ),
+            ).toBe("/*if:nonEmpty(b)*/X/*endif*//*if:isNumber(c)*/Y/*endif*/");
+        });
+
+        test("should reject unknown predicates when the template is parsed", () => {
+            const template = "/*if:a*//*if:isEven(b)*/X/*endif*//*endif*/";
+            const message =
+                "Unknown predicate \"isEven\" at line 1, column 9\n/*if:a*//*if:isEven(b)*/X/*endif*//*endif*/\n        ^";
+
+            expect(() => conditionalString(template as string, { a: true }))
+                .toThrow(message);
+            expect(() => conditionalString(template as string, { a: false }))
+                .toThrow(message);
+            expect(() => conditionalString.compile(template as string))
+                .toThrow(message);
+            const withPartial = conditionalString.withPartials({
+                p: "/*if:isEven(b)*/X/*endif*/",
+            });
+
+            expect(() =>
+                withPartial("/*if:a*//*include:p*//*endif*/" as string, {
+                    a: false,
+                })
+            ).toThrow("Unknown predicate \"isEven\" at line 1, column 1");
+            expect(withGuards(template as string, { a: false })).toBe("");
+            expect(() => conditionalString("/*if:a.b(c)*/X/*endif*/" as string, {}))
+                .toThrow(ConditionalStringSyntaxError);
+        });
+    });
+
+    describe("compile", () => {
+        test("should render like conditionalString", () => {
+            const template =
+                "a/*if:x*/b/*elif:y*/c/*else*/d/*endif*/ /*each:xs as v sep=\",\"*//*=v*//*endeach*/" as string;
+            const render = conditionalString.compile(template);
+
+            for (
+                const data of [
+                    { x: true, y: false, xs: [ 1, 2 ] },
+                    { x: false, y: true, xs: [] },
+                    { x: false, y: false, xs: [ "z" ] },
+                ]
+            ) {
+                expect(render(data) as string).toBe(
+                    conditionalString(template, data) as string,
+                );
+            }
+        });
+
+        test("should reuse the template with different data", () => {
+            const render = compiledGreeting;
+            expect(render.template as string).toBe(
+                "Hello /*if:name*//*=name*//*else*/stranger/*endif*/!",
+            );
+            expect(render({ name: "Ann" }) as string).toBe("Hello Ann!");
+            expect(render({ name: "" }) as string).toBe("Hello stranger!");
+        });
+
+        test("should bind parameters in sql mode", () => {
+            const query = compiledQuery.sql({ name: "John" as string }, {
+                placeholder: "named",
+            });
+            expect(query.text as string).toBe(
+                "SELECT * FROM users WHERE 1=1 AND name = :name",
+            );
+            expect(query.values).toEqual({ name: "John" });
+            // Every render starts with no bound values
+            expect(compiledQuery.sql({ name: "Ann" }).values).toEqual([
+                "Ann",
+            ]);
+        });
+
+        test("should throw when compiling an invalid template", () => {
+            expect(() => conditionalString.compile("/*if:x*/a" as string))
+                .toThrow("Unclosed if block");
+            expect(() => conditionalString.compile("a/*endif*/" as string))
+                .toThrow("Unexpected");
+        });
+
+        test("should be faster than parsing on every render", () => {
+            // 50 nested blocks inside 200 sequential ones
+            const nested = Array.from({ length: 50 }, (_, i) =>
+                `/*if:flags.f${i} && n > ${i}*/[/*=n*/`
+            ).join("") + "/*endif*/]".repeat(50);
+            const template = Array.from({ length: 200 }, (_, i) =>
+                `/*if:flags.f${i % 50}*/row ${i} /*elif:n == ${i}*/x/*endif*/`
+            ).join("\n") + nested;
+            const data = {
+                n: 100,
+                flags: Object.fromEntries(
+                    Array.from({ length: 50 }, (_, i) => [ `f${i}`, i % 3 > 0 ]),
+                ),
+            };
+            const render = conditionalString.compile(template);
+
+            // Median of several runs, so that a slow run on a busy machine
+            // does not decide the result
+            const measure = (fn: () => unknown) => {
+                const runs = Array.from({ length: 7 }, () => {
+                    const start = performance.now();
+                    for (let i = 0; i < 20; i++) {
+                        fn();
+                    }
+                    return performance.now() - start;
+                });
+                return runs.sort((a, b) => a - b)[3];
+            };
+
+            expect(render(data) as string).toBe(
+                conditionalString(template, data) as string,
+            );
+            const uncompiled = measure(() => conditionalString(template, data));
+            const compiled = measure(() => render(data));
+            // Rendering a compiled template is about ten times faster
+            expect(compiled * 3).toBeLessThan(uncompiled);
+        });
+
+        test("should parse the template once", () => {
+            const parseTemplate = spyOn(parser, "parseTemplate");
+            try {
+                const render = conditionalString.compile(
+                    "/*if:a*/A/*else*/B/*endif*/" as string,
+                );
+                expect(render({ a: true }) as string).toBe("A");
+                expect(render({ a: false }) as string).toBe("B");
+                expect(render.sql({ a: true }).text as string).toBe("A");
+                expect(parseTemplate).toHaveBeenCalledTimes(1);
+            }
+            finally {
+                parseTemplate.mockRestore();
+            }
+        });
+    });
+
+    describe("required data", () => {
+        test("should reject data without a referenced key", () => {
+            const template = "/*if:user.isAdmn*/admin/*endif*/";
+            const data = { user: { isAdmin: true } };
+            // @ts-expect-error - misspelled key is not in data
+            expect(conditionalString(template, data) as string).toBe("");
+            // @ts-expect-error - the each block needs an array
+            conditionalString("/*each:xs as x*//*=x*//*endeach*/", {});
+        });
+
+        test("should allow optional paths to be missing", () => {
+            const template =
+                "SELECT */*if:debug?*/, debug_info/*endif*/ FROM t/*each:ids? as id*/ WHERE id = /*=id*//*endeach*/ LIMIT /*=limit ?? 10*/";
+            expect(conditionalString(template, {}) as string).toBe(
+                "SELECT * FROM t LIMIT 10",
+            );
+            expect(
+                conditionalString(template, { debug: true, ids: [ 5 ] }) as string,
+            ).toBe("SELECT *, debug_info FROM t WHERE id = 5 LIMIT 10");
+        });
+
+        test("should require keys in with() and compile()", () => {
+            const typed = conditionalString.with<{ flag: true; }>();
+            const template = "/*if:flag*/F/*endif*/";
+            expect(typed(template, { flag: 1 }) as string).toBe("F");
+            // @ts-expect-error - flag is missing
+            expect(typed(template, {}) as string).toBe("");
+
+            const render = conditionalString.compile(template);
+            // @ts-expect-error - flag is missing
+            expect(render({}) as string).toBe("");
+        });
+    });
+
+    describe("strict mode", () => {
+        const dataError = (fn: () => unknown) => {
+            try {
+                fn();
+            }
+            catch (error) {
+                expect(error).toBeInstanceOf(ConditionalStringDataError);
+                return error as ConditionalStringDataError;
+            }
+            throw new Error("No data error");
+        };
+
+        test("should throw on a missing path with its position", () => {
+            const template =
+                "SELECT *\nFROM users\nWHERE 1=1 /*if:user.isAdmin*/AND x/*endif*/" as string;
+            const error = dataError(() =>
+                conditionalString(template, { user: {} }, { strict: true })
+            );
+            expect(error.path).toBe("user.isAdmin");
+            expect(error.reason).toBe(
+                "Missing value \"user.isAdmin\" in \"/*if:user.isAdmin*/\"",
+            );
+            expect(error.line).toBe(3);
+            expect(error.column).toBe(11);
+            expect(error.offset).toBe(30);
+        });
+
+        test("should accept present falsy and undefined values", () => {
+            const template =
+                "/*if:a*/A/*endif*//*if:b*/B/*endif*//*if:c*/C/*endif*/" as string;
+            expect(
+                conditionalString(
+                    template,
+                    { a: false, b: undefined, c: null },
+                    { strict: true },
+                ) as string,
+            ).toBe("");
+        });
+
+        test("should allow optional paths and fallbacks to be missing", () => {
+            const template =
+                "/*if:debug?*/D/*endif*//*=limit ?? 10*//*each:ids? as id*//*=id*//*endeach*/" as string;
+            expect(
+                conditionalString(template, {}, { strict: true }) as string,
+            ).toBe("10");
+        });
+
+        test("should check values, parameters and each blocks", () => {
+            expect(
+                dataError(() =>
+                    conditionalString("a/*=name*/" as string, {}, {
+                        strict: true,
+                    })
+                ).path,
+            ).toBe("name");
+            expect(
+                dataError(() =>
+                    conditionalString.sql("a = /*:a*/" as string, {}, {
+                        strict: true,
+                    })
+                ).path,
+            ).toBe("a");
+            expect(
+                dataError(() =>
+                    conditionalString(
+                        "/*each:users as u*//*=u.name*//*endeach*/" as string,
+                        { users: [ { name: "ann" }, {} ] },
+                        { strict: true },
+                    )
+                ).path,
+            ).toBe("users.1.name");
+        });
+
+        test("should not check blocks that are not rendered", () => {
+            const template = "/*if:a*//*=b*//*elif:c*/C/*endif*/" as string;
+            expect(
+                conditionalString(template, { a: false, c: true }, {
+                    strict: true,
+                }) as string,
+            ).toBe("C");
+        });
+
+        test("should reject non-boolean conditions with strictBooleans", () => {
+            const template = "/*if:flag*/F/*endif*/" as string;
+            for (const flag of [ "false", 1, null, [] ]) {
+                const error = dataError(() =>
+                    conditionalString(template, { flag }, {
+                        strictBooleans: true,
+                    })
+                );
+                expect(error.reason).toStartWith("Non-boolean value");
+                expect(error.path).toBe("flag");
+            }
+            expect(
+                dataError(() =>
+                    conditionalString(template, { flag: "false" }, {
+                        strictBooleans: true,
+                    })
+                ).reason,
+            ).toBe(
+                "Non-boolean value \"false\" of \"flag\" in \"/*if:flag*/\"",
+            );
+            expect(
+                conditionalString(template, { flag: true }, {
+                    strictBooleans: true,
+                }) as string,
+            ).toBe("F");
+        });
+
+        test("should allow comparisons and optional flags", () => {
+            const template =
+                "/*if:count > 0 && role == \"admin\"*/A/*endif*//*if:debug?*/D/*endif*/" as string;
+            expect(
+                conditionalString(template, { count: 1, role: "admin" }, {
+                    strictBooleans: true,
+                }) as string,
+            ).toBe("A");
+        });
+
+        test("should work with compiled templates", () => {
+            const render = conditionalString.compile(
+                "/*if:a*/A/*endif*/" as string,
+            );
+            expect(dataError(() => render({}, { strict: true })).path)
+                .toBe("a");
+            expect(render({}) as string).toBe("");
+        });
+    });
+
+    describe("trim markers", () => {
+        test("should remove whitespace before and after markers", () => {
+            const template =
+                "Start /*if:a*/A /*-if:b*/B/*endif*//*endif-*/ End" as string;
+            expect(conditionalString(template, { a: true, b: false })).toBe(
+                "Start AEnd",
+            );
+            expect(conditionalString(template, { a: true, b: true })).toBe(
+                "Start ABEnd",
+            );
+            expect(conditionalString(template, { a: false })).toBe("Start End");
+        });
+
+        test("should remove the lines of dropped blocks", () => {
+            const template = [
+                "SELECT *",
+                "FROM users",
+                "WHERE 1=1",
+                "/*-if:active*/",
+                "AND active = true",
+                "/*-endif*/",
+                "/*-if:role*/",
+                "AND role = /*:role*/",
+                "/*-endif*/",
+                "ORDER BY id",
+            ].join("\n") as string;
+
+            expect(conditionalString(template, { role: "admin" })).toBe(
+                "SELECT *\nFROM users\nWHERE 1=1\nAND role = /*:role*/\nORDER BY id",
+            );
+            expect(conditionalString.sql(template, { active: true })).toEqual({
+                text:
+                    "SELECT *\nFROM users\nWHERE 1=1\nAND active = true\nORDER BY id",
+                values: [],
+            });
+        });
+
+        test("should trim around values, each blocks and else branches", () => {
+            const template =
+                "[ /*-each:xs as x sep=\",\"-*/ /*=x*/ /*-empty-*/ none /*-endeach-*/ ] /*if:a*/a/*else-*/ b /*-endif*/" as string;
+            expect(conditionalString(template, { xs: [ 1, 2 ], a: false }))
+                .toBe("[1,2] b");
+            expect(conditionalString(template, { xs: [], a: true })).toBe(
+                "[none] a",
+            );
+        });
+
+        test("should leave comments with dashes as text", () => {
+            const template = "A /*-note-*/ /*-- x --*/ B" as string;
+            expect(conditionalString(template, {})).toBe(template);
+        });
+
+        test("should show markers without trim flags in errors", () => {
+            expect(() => conditionalString("A /*-if:a-*/" as string, {}))
+                .toThrow("Unclosed if block \"/*if:a*/\" at line 1, column 3");
+            expect(() => conditionalString("/*-if:a >*/" as string, {}))
+                .toThrow("at line 1, column 7");
+        });
+    });
+
+    describe("syntax profiles", () => {
+        test("should read html comments", () => {
+            const html = createConditionalString({ syntax: "html" });
+            const template =
+                "<p><!--if:admin-->Admin<!--else-->Guest<!--endif--></p>\n<!---if:debug-->\n<!-- debug --><!--endif-->" as string;
+            expect(html(template, { admin: true, debug: false })).toBe(
+                "<p>Admin</p>",
             );
-            expect(result).toBe(
-                "SELECT * FROM users WHERE 1=1 AND deleted = false",
+            expect(html(template, { admin: false, debug: true })).toBe(
+                "<p>Guest</p>\n<!-- debug -->",
             );
         });
 
-        test("should exclude content when condition is falsy", () => {
+        test("should read custom delimiters", () => {
+            const jinja = createConditionalString({
+                syntax: { open: "{%", close: "%}" },
+            });
+            expect(
+                jinja("{%if:a%}A{%else%}B{%endif%} {%=n%} {% raw %}" as string, {
+                    a: false,
+                    n: 1,
+                }),
+            ).toBe("B 1 {% raw %}");
+
+            const broken = createConditionalString({
+                syntax: { open: "", close: "%}" },
+            });
+            expect(() => broken("x" as string, {})).toThrow(TypeError);
+        });
+
+        test("should remove sql directive lines", () => {
+            const sql = createConditionalString({ syntax: "sql" });
+            const template = [
+                "SELECT *",
+                "FROM users",
+                "WHERE 1=1",
+                "-- #if name",
+                "  AND name = /*:name*/",
+                "-- #elif email",
+                "  AND email = /*:email*/",
+                "-- #endif",
+                "  -- #each roles? as role",
+                "  AND /*:role*/ = ANY(roles)",
+                "  -- #endeach",
+                "ORDER BY id -- #if x",
+            ].join("\r\n") as string;
+
+            expect(sql.sql(template, { email: "a@b.c", roles: [ "admin" ] }))
+                .toEqual({
+                    text: [
+                        "SELECT *",
+                        "FROM users",
+                        "WHERE 1=1",
+                        "  AND email = $1",
+                        "  AND $2 = ANY(roles)",
+                        "ORDER BY id -- #if x",
+                    ].join("\r\n"),
+                    values: [ "a@b.c", "admin" ],
+                });
+        });
+
+        test("should leave other sql comments as text", () => {
+            const sql = createConditionalString({ syntax: "sql" });
+            const template = "-- #todo check\n-- #iffy\nSELECT 1" as string;
+            expect(sql(template, {})).toBe(template);
+        });
+
+        test("should read mustache tags", () => {
+            const mustache = createConditionalString({ syntax: "mustache" });
             const template =
-                "SELECT * FROM users WHERE 1=1 /*if:includeDeleted*/AND deleted = false/*endif*/";
-            const result = conditionalString(
-                template,
-                {
-                    includeDeleted: false,
-                } as const,
+                "{{#each items as item sep=\", \"}}{{ item.name }}{{else}}none{{/each}}: {{#if a}}A{{else if b}}B{{else}}C{{/if}} {{~#if a}} x {{/if~}} ." as string;
+
+            expect(
+                mustache(template, {
+                    items: [ { name: "x" }, { name: "y" } ],
+                    a: false,
+                    b: false,
+                }),
+            ).toBe("x, y: C.");
+            expect(mustache(template, { items: [], a: true })).toBe(
+                "none: A x .",
             );
-            expect(result).toBe("SELECT * FROM users WHERE 1=1 ");
+            expect(
+                mustache.sql("WHERE id = {{:id}}" as string, { id: 7 }),
+            ).toEqual({ text: "WHERE id = $1", values: [ 7 ] });
         });
 
-        test("should exclude content when condition key is missing", () => {
-            const template =
-                "SELECT * FROM users WHERE 1=1 /*if:includeDeleted*/AND deleted = false/*endif*/";
-            const result = conditionalString(template, {});
-            expect(result).toBe("SELECT * FROM users WHERE 1=1 ");
+        test("should remove mustache comments", () => {
+            const mustache = createConditionalString({ syntax: "mustache" });
+            expect(
+                mustache(
+                    "a{{! note }}b{{!-- {{#if x}} }} --}}c{{\\! kept }}" as string,
+                    {},
+                ),
+            ).toBe("abc{{! kept }}");
         });
 
-        test("should handle empty data object", () => {
-            const template =
-                "SELECT * FROM users /*if:flag*/WHERE active = true/*endif*/";
-            const result = conditionalString(template, {});
-            expect(result).toBe("SELECT * FROM users ");
+        test("should keep reading C-style markers", () => {
+            const html = createConditionalString({ syntax: "html" });
+            expect(
+                html("<!--if:a-->/*=b*/<!--endif-->" as string, {
+                    a: true,
+                    b: "B",
+                }),
+            ).toBe("B");
+        });
+
+        test("should compile templates in a profile", () => {
+            const mustache = createConditionalString({ syntax: "mustache" });
+            const render = mustache.compile("Hi {{name}}!" as string);
+            expect(render({ name: "Ann" })).toBe("Hi Ann!");
+        });
+
+        test("should report errors at the profile's markers", () => {
+            const html = createConditionalString({ syntax: "html" });
+            const mustache = createConditionalString({ syntax: "mustache" });
+            const sql = createConditionalString({ syntax: "sql" });
+
+            expect(() => html("x <!--if:a-->" as string, {})).toThrow(
+                "Unclosed if block \"/*if:a*/\" at line 1, column 3",
+            );
+            expect(() => mustache("{{#if  a >}}{{/if}}" as string, {}))
+                .toThrow("at line 1, column 8");
+            expect(() => sql("SELECT 1\n  -- #if a >\n-- #endif" as string, {}))
+                .toThrow("at line 2, column 10");
+            expect(() =>
+                mustache("{{#if a}}{{b}}{{/if}}" as string, { a: true }, {
+                    strict: true,
+                })
+            ).toThrow("Missing value \"b\" in \"/*=b*/\" at line 1, column 10");
         });
     });
 
-    describe("negation", () => {
-        test("should include content when negated condition is falsy", () => {
+    describe("partial evaluation", () => {
+        test("should resolve only conditions with known paths", () => {
             const template =
-                "SELECT * FROM users /*if:!skipDeleted*/WHERE deleted = false/*endif*/";
-            const result = conditionalString(
-                template,
-                { skipDeleted: false } as const,
+                "x/*if:a*/A/*elif:b || c*/B/*elif:d*/D/*else*/E/*endif*/y /*if:e*/E/*endif*/" as string;
+            expect(
+                conditionalString.partial(template, { a: false, c: false, d: true }),
+            ).toBe("x/*if:b*/B/*else*/D/*endif*/y /*if:e*/E/*endif*/");
+            expect(conditionalString.partial(template, { a: true })).toBe(
+                "xAy /*if:e*/E/*endif*/",
             );
-            expect(result).toBe("SELECT * FROM users WHERE deleted = false");
+            expect(
+                conditionalString.partial(template, { b: undefined, e: 0 }),
+            ).toBe("x/*if:a*/A/*elif:c*/B/*elif:d*/D/*else*/E/*endif*/y ");
         });
 
-        test("should exclude content when negated condition is truthy", () => {
-            const template =
-                "SELECT * FROM users /*if:!skipDeleted*/WHERE deleted = false/*endif*/";
-            const result = conditionalString(
-                template,
-                { skipDeleted: true } as const,
+        test("should simplify compound conditions", () => {
+            const partial = (template: string, data: Record<string, unknown>) =>
+                conditionalString.partial(template, data);
+
+            expect(partial("/*if:a && b*/X/*endif*/", { a: true })).toBe(
+                "/*if:b*/X/*endif*/",
             );
-            expect(result).toBe("SELECT * FROM users ");
+            expect(partial("/*if:a && b*/X/*endif*/", { b: false })).toBe("");
+            expect(partial("/*if:a || b*/X/*endif*/", { b: true })).toBe("X");
+            expect(partial("/*if:!(a && b) || c*/X/*endif*/", { b: true }))
+                .toBe("/*if:!a || c*/X/*endif*/");
+            expect(partial("/*if:(a || b) && c*/X/*endif*/", { b: false }))
+                .toBe("/*if:a && c*/X/*endif*/");
+            expect(
+                partial("/*if:a && (b || c) && d == 'x\"'*/X/*endif*/", {
+                    c: false,
+                }),
+            ).toBe("/*if:a && b && d == 'x\"'*/X/*endif*/");
+            expect(partial("/*if:role in [\"a\", 1] && a*/X/*endif*/", {
+                role: 1,
+            })).toBe("/*if:a*/X/*endif*/");
         });
 
-        test("should include content when negated condition key is missing", () => {
+        test("should keep markers and process block content", () => {
             const template =
-                "SELECT * FROM users /*if:!skipDeleted*/WHERE deleted = false/*endif*/";
-            const result = conditionalString(template, {});
-            expect(result).toBe("SELECT * FROM users WHERE deleted = false");
+                "/*each:items as item sep=\", \"*//*if:item.x && k*/X/*endif*//*=item.name*//*empty*//*if:k*/K/*endif*//*endeach*/ /*:id*/" as string;
+            expect(conditionalString.partial(template, { k: 1, items: [] }))
+                .toBe(
+                    "/*each:items as item sep=\", \"*//*if:item.x*/X/*endif*//*=item.name*//*empty*/K/*endeach*/ /*:id*/",
+                );
+        });
+
+        test("should return a template for a later call", () => {
+            const mustache = createConditionalString({ syntax: "mustache" });
+            const template = mustache.partial(
+                "{{#if a && b}}AB{{else}}-{{/if}} {{~ name ~}} .",
+                { a: true } as const,
+            );
+            expect(template).toBe(
+                "/*if:b*/AB/*else*/-/*endif*//*=name*/.",
+            );
+            expect(
+                conditionalString(template, { b: false, name: "Ann" } as const),
+            ).toBe("-Ann.");
+            expect(
+                conditionalString(
+                    conditionalString.partial(
+                        "/* note *//*-if: a -*/ A /*-endif*/" as string,
+                        { b: 1 },
+                    ),
+                    { a: true },
+                ) as string,
+            ).toBe("/* note */A");
         });
     });
 
-    describe("dot notation (nested properties)", () => {
-        test("should resolve nested property", () => {
+    describe("explain", () => {
+        test("should list branches with their values and results", () => {
             const template =
-                "SELECT * FROM orders /*if:user.isAdmin*/WHERE status = 'all'/*endif*/";
-            const result = conditionalString(
-                template,
+                "x /*if:a && b*/A/*elif:c*/C/*elif:d*/D/*else*/E/*endif*/";
+            const { text, blocks } = conditionalString.explain(
+                template as string,
+                { a: true, b: 0, c: "c" },
+            );
+
+            expect(text).toBe("x C");
+            expect(blocks).toEqual([
                 {
-                    user: { isAdmin: true },
-                } as const,
+                    kind: "if",
+                    marker: "/*if:a && b*/",
+                    condition: "a && b",
+                    values: { a: true, b: 0 },
+                    result: false,
+                    included: false,
+                    start: 2,
+                    end: 16,
+                    partial: null,
+                    parent: null,
+                },
+                {
+                    kind: "elif",
+                    marker: "/*elif:c*/",
+                    condition: "c",
+                    values: { c: "c" },
+                    result: true,
+                    included: true,
+                    start: 16,
+                    end: 27,
+                    partial: null,
+                    parent: null,
+                },
+                {
+                    kind: "elif",
+                    marker: "/*elif:d*/",
+                    condition: "d",
+                    values: {},
+                    result: null,
+                    included: false,
+                    start: 27,
+                    end: 38,
+                    partial: null,
+                    parent: null,
+                },
+                {
+                    kind: "else",
+                    marker: "/*else*/",
+                    condition: null,
+                    values: {},
+                    result: null,
+                    included: false,
+                    start: 38,
+                    end: 56,
+                    partial: null,
+                    parent: null,
+                },
+            ]);
+            expect(template.slice(2, 16)).toBe("/*if:a && b*/A");
+        });
+
+        test("should nest blocks of each items, partials and dropped content", () => {
+            const queries = conditionalString.withPartials({
+                flag: "/*if:item.on*/on/*endif*/",
+            });
+            const { text, blocks } = queries.explain(
+                "/*each:items as item sep=\",\"*/[/*include:flag*/]/*empty*//*if:none*/-/*endif*//*endeach*//*if:off*//*if:x*/X/*endif*//*endif*/" as string,
+                { items: [ { on: true }, { on: false } ], off: false },
             );
-            expect(result).toBe("SELECT * FROM orders WHERE status = 'all'");
+            const summary = blocks.map((block) => [
+                block.marker,
+                block.result,
+                block.included,
+                block.partial,
+                block.parent,
+            ]);
+
+            expect(text).toBe("[on],[]");
+            expect(summary).toEqual([
+                [ "/*each:items as item sep=\",\"*/", true, true, null, null ],
+                [ "/*if:item.on*/", true, true, "flag", 0 ],
+                [ "/*if:item.on*/", false, false, "flag", 0 ],
+                [ "/*if:none*/", null, false, null, 0 ],
+                [ "/*if:off*/", false, false, null, null ],
+                [ "/*if:x*/", null, false, null, 4 ],
+            ]);
+            expect(blocks[0].values).toEqual({
+                items: [ { on: true }, { on: false } ],
+            });
+            expect(blocks[2].values).toEqual({ "items.1.on": false });
+            expect(blocks[0].end).toBe(89);
         });
+    });
 
-        test("should handle missing nested property", () => {
-            const template =
-                "SELECT * FROM orders /*if:user.isAdmin*/WHERE status = 'all'/*endif*/";
-            const result = conditionalString(template, { user: {} });
-            expect(result).toBe("SELECT * FROM orders ");
+    describe("parse and print", () => {
+        test("should parse a template into nodes with source spans", () => {
+            const nodes = parse("a /*-if:b-*/ B /*endif*/" as string);
+
+            expect(nodes).toEqual([
+                {
+                    type: "text",
+                    value: "a",
+                    span: { text: "a", start: 0, end: 1 },
+                },
+                {
+                    type: "if",
+                    branches: [ {
+                        condition: {
+                            type: "path",
+                            path: "b",
+                            optional: false,
+                        },
+                        children: [ {
+                            type: "text",
+                            value: "B ",
+                            span: { text: "B ", start: 13, end: 15 },
+                        } ],
+                        marker: "/*if:b*/",
+                        offset: 2,
+                        span: { text: " /*-if:b-*/ ", start: 1, end: 13 },
+                    } ],
+                    closingSpan: { text: "/*endif*/", start: 15, end: 24 },
+                },
+            ]);
         });
 
-        test("should handle missing parent object", () => {
-            const template =
-                "SELECT * FROM orders /*if:user.isAdmin*/WHERE status = 'all'/*endif*/";
-            const result = conditionalString(template, {});
-            expect(result).toBe("SELECT * FROM orders ");
+        test("should print parsed nodes back to the same template", () => {
+            const templates = [
+                "a /*if:b && c-*/\n  x /*elif:d*/y/*else-*/ z /*-endif*/ w",
+                "/*each:xs? as x sep=', '-*/ [/*=x*/] /*-empty*/-/*endeach*/",
+                "SELECT 1 /*where*/ AND a = /*:a*/ /*endwhere*/ /* note */",
+                "/*list:, */x, /*endlist-*/\n\n",
+            ];
+
+            for (const template of templates) {
+                expect(print(parse(template as string))).toBe(template);
+            }
         });
 
-        test("should handle deeply nested property", () => {
-            const template =
-                "SELECT * FROM data /*if:config.features.beta.enabled*/WHERE beta = true/*endif*/";
-            const result = conditionalString(
-                template,
-                {
-                    config: { features: { beta: { enabled: true } } },
-                } as const,
+        test("should print templates of other syntax profiles", () => {
+            const template = "Hi {{#if a}}{{name}}{{else}}-{{/if}}!";
+
+            expect(
+                print(parse(template as string, { syntax: "mustache" })),
+            ).toBe(template);
+        });
+
+        test("should parse included partials and print their markers", () => {
+            const nodes = parse("a/*include:p*/" as string, {
+                partials: { p: "/*=x*/" },
+            });
+
+            expect(nodes[1]).toMatchObject({
+                type: "include",
+                name: "p",
+                children: [ { type: "value", span: { start: 0, end: 6 } } ],
+            });
+            expect(print(nodes)).toBe("a/*include:p*/");
+        });
+
+        test("should type literal templates", () => {
+            const nodes = parse("/*if:a*/A/*endif*/");
+            const [ node ] = nodes;
+
+            expect(node.branches[0].condition.path).toBe("a");
+        });
+
+        test("should throw syntax errors", () => {
+            expect(() => parse("/*if:a*/A" as string)).toThrow(
+                ConditionalStringSyntaxError,
             );
-            expect(result).toBe("SELECT * FROM data WHERE beta = true");
         });
+    });
 
-        test("should handle negated nested property", () => {
-            const template =
-                "SELECT * FROM orders /*if:!user.isGuest*/WHERE user_id IS NOT NULL/*endif*/";
-            const result = conditionalString(
-                template,
-                {
-                    user: { isGuest: false },
-                } as const,
+    describe("command-line tool", () => {
+        const files: Record<string, string> = {
+            "query.sql": "SELECT * FROM t\n"
+                + "WHERE 1=1 /*if:role == \"admin\"*/AND all/*endif*/"
+                + "/*each:tags as tag*/ /*=tag.name*//*endeach*/"
+                + " LIMIT /*=limit ?? 10*/",
+            "broken.sql": "SELECT *\nFROM t /*if:a &&*/WHERE a/*endif*/",
+            "data.json": JSON.stringify({
+                role: "admin",
+                tags: [ { name: "x" } ],
+            }),
+            "page.html": "<!--if:a-->A<!--endif-->",
+        };
+
+        const run = (...args: string[]) => {
+            const output = { code: 0, stdout: "", stderr: "" };
+            const io: CliIo = {
+                readFile: (path) => {
+                    if (!Object.hasOwn(files, path)) {
+                        throw new Error(`ENOENT: ${path}`);
+                    }
+                    return files[path];
+                },
+                writeFile: (path, text) => {
+                    files[path] = text;
+                },
+                stdout: (text) => {
+                    output.stdout += text;
+                },
+                stderr: (text) => {
+                    output.stderr += text;
+                },
+            };
+            output.code = runCli(args, io);
+            return output;
+        };
+
+        test("should render a template file with JSON data", () => {
+            expect(run("render", "query.sql", "--data", "data.json")).toEqual({
+                code: 0,
+                stdout: "SELECT * FROM t\nWHERE 1=1 AND all x LIMIT 10",
+                stderr: "",
+            });
+        });
+
+        test("should report render errors in strict mode", () => {
+            const { code, stderr } = run("render", "query.sql", "--strict");
+
+            expect(code).toBe(1);
+            expect(stderr).toStartWith(
+                "query.sql:2:11: Missing value \"role\"",
             );
-            expect(result).toBe(
-                "SELECT * FROM orders WHERE user_id IS NOT NULL",
+        });
+
+        test("should report unknown predicates before rendering", () => {
+            files["call.sql"] = "/*if:a*//*if:isEven(b)*/X/*endif*//*endif*/";
+
+            const { code, stderr } = run("render", "call.sql");
+
+            expect(code).toBe(1);
+            expect(stderr).toStartWith(
+                "call.sql:1:9: Unknown predicate \"isEven\"",
+            );
+        });
+
+        test("should check template files", () => {
+            expect(run("check", "query.sql").code).toBe(0);
+            expect(run("check", "query.sql", "broken.sql")).toEqual({
+                code: 1,
+                stdout: "",
+                stderr: "broken.sql:2:13: Invalid condition \"a &&\": "
+                    + "unexpected end\n"
+                    + "FROM t /*if:a &&*/WHERE a/*endif*/\n"
+                    + "            ^\n",
+            });
+        });
+
+        test("should read other syntax profiles", () => {
+            expect(run("conditions", "page.html").stdout).toBe("");
+            expect(
+                run("conditions", "page.html", "--syntax", "html").stdout,
+            ).toBe("a\n");
+        });
+
+        test("should list the paths a template references", () => {
+            expect(run("conditions", "query.sql").stdout).toBe(
+                "role\ntags.[]\ntags.[].name\nlimit?\n",
+            );
+        });
+
+        test("should write a typed module for each template", () => {
+            files["queries/hi.txt"] = "Hi /*=name*/";
+
+            expect(run("generate", "queries/hi.txt", "--import", "lib")).toEqual({
+                code: 0,
+                stdout: "queries/hi.txt.ts\n",
+                stderr: "",
+            });
+            expect(files["queries/hi.txt.ts"]).toBe(
+                [
+                    "// Generated by conditional-string from hi.txt. Do not edit.",
+                    "",
+                    "import {",
+                    "    conditionalString,",
+                    "    type ConditionalStringResult,",
+                    "    type RenderOptions,",
+                    "    type TemplateData,",
+                    "} from \"lib\";",
+                    "",
+                    "export const template = \"Hi /*=name*/\";",
+                    "",
+                    "/**",
+                    " * The data the template requires.",
+                    " */",
+                    "export type Data = TemplateData<typeof template>;",
+                    "",
+                    "/**",
+                    " * Render the template.",
+                    " */",
+                    "export function render<RenderData extends Record<string, unknown>>(",
+                    "    data: RenderData & Data,",
+                    "    options?: RenderOptions,",
+                    "): ConditionalStringResult<typeof template, RenderData> {",
+                    "    return conditionalString<typeof template, RenderData>(",
+                    "        template,",
+                    "        data,",
+                    "        options,",
+                    "    );",
+                    "}",
+                    "",
+                ].join("\n"),
+            );
+        });
+
+        test("should bind generated modules to the syntax profile", () => {
+            run("generate", "page.html", "--syntax", "html");
+
+            expect(files["page.html.ts"]).toContain(
+                "const syntax = \"html\";\n"
+                    + "const conditionalString = createConditionalString({ syntax });\n",
+            );
+            expect(files["page.html.ts"]).toContain(
+                "export type Data = TemplateData<typeof template, typeof syntax>;",
+            );
+            expect(run("generate", "broken.sql").code).toBe(1);
+            expect(files["broken.sql.ts"]).toBeUndefined();
+        });
+
+        test("should fail on usage errors", () => {
+            expect(run().code).toBe(2);
+            expect(run("render", "a.sql", "b.sql").stderr).toStartWith(
+                "conditional-string: Invalid command \"render a.sql b.sql\"",
             );
+            expect(run("check", "missing.sql")).toEqual({
+                code: 2,
+                stdout: "",
+                stderr: "conditional-string: Cannot read \"missing.sql\"\n",
+            });
+            expect(run("render", "query.sql", "--syntax", "xml").code).toBe(2);
         });
     });
 
-    describe("nested conditions", () => {
-        test("should handle nested conditions (both truthy)", () => {
-            const template =
-                "SELECT * /*if:a*/FROM users /*if:b*/WHERE active = true/*endif*//*endif*/";
-            const result = conditionalString(
-                template,
-                { a: true, b: true } as const,
+    describe("tagged templates", () => {
+        test("should pick text by inline conditions", () => {
+            expect(cs.if(true, "A")).toBe("A");
+            expect(cs.if(0, "A")).toBe("");
+            expect(cs.if("x", "A", "B")).toBe("A");
+            expect(cs.unless(null, "A", "B")).toBe("A");
+            expect(cs.unless([], "A", "B")).toBe("B");
+            expect(cs.if(true, cs.unless(false, "A"))).toBe("A");
+        });
+
+        test("should join parts, dropping empty values", () => {
+            const isGuest = true as boolean;
+            const activeOnly = true as boolean;
+
+            expect(
+                cs`SELECT * FROM t WHERE 1=1 ${
+                    cs.if(activeOnly, "AND active")
+                } ${cs.unless(isGuest, "AND public")}`,
+            ).toBe("SELECT * FROM t WHERE 1=1 AND active ");
+            expect(cs`a${null}b${undefined}c${false}d${0}e${true}`).toBe(
+                "abcd0etrue",
             );
-            expect(result).toBe("SELECT * FROM users WHERE active = true");
         });
 
-        test("should handle nested conditions (outer truthy, inner falsy)", () => {
-            const template =
-                "SELECT * /*if:a*/FROM users /*if:b*/WHERE active = true/*endif*//*endif*/";
-            const result = conditionalString(
-                template,
-                { a: true, b: false } as const,
+        test("should compose with conditional comments", () => {
+            const template = cs`SELECT * FROM t${
+                cs.if(true, " WHERE id = /*:id*/")
+            }/*if:limit*/ LIMIT /*=limit*//*endif*/`;
+
+            expect(
+                conditionalString.sql(template, { id: 1, limit: 5 }),
+            ).toEqual({
+                text: "SELECT * FROM t WHERE id = $1 LIMIT 5",
+                values: [ 1 ],
+            });
+        });
+    });
+
+    describe("syntax errors", () => {
+        const syntaxError = (template: string) => {
+            try {
+                conditionalString(template, {});
+            }
+            catch (error) {
+                expect(error).toBeInstanceOf(ConditionalStringSyntaxError);
+                return error as ConditionalStringSyntaxError;
+            }
+            throw new Error(`No syntax error in "${template}"`);
+        };
+
+        test("should report unclosed blocks at their opening marker", () => {
+            const error = syntaxError("SELECT *\nFROM t\n  /*if:x*/WHERE x");
+            expect(error.reason).toBe("Unclosed if block \"/*if:x*/\"");
+            expect(error.offset).toBe(18);
+            expect(error.line).toBe(3);
+            expect(error.column).toBe(3);
+            expect(error.snippet).toBe("  /*if:x*/WHERE x\n  ^");
+            expect(error.message).toBe(
+                "Unclosed if block \"/*if:x*/\" at line 3, column 3\n"
+                    + "  /*if:x*/WHERE x\n  ^",
             );
-            expect(result).toBe("SELECT * FROM users ");
         });
 
-        test("should handle nested conditions (outer falsy)", () => {
+        test("should report markers without an open block", () => {
+            for (
+                const template of [
+                    "a/*endif*/",
+                    "a/*else*/b",
+                    "/*if:x*/a/*else*/b/*else*/c/*endif*/",
+                    "/*if:x*/a/*else*/b/*elif:y*/c/*endif*/",
+                    "/*if:x*/a/*endeach*/",
+                    "/*each:xs as x*/a/*empty*/b/*empty*/c/*endeach*/",
+                ]
+            ) {
+                expect(syntaxError(template).reason).toStartWith(
+                    "Unexpected",
+                );
+            }
+        });
+
+        test("should report invalid conditions at the condition", () => {
+            const error = syntaxError(
+                "SELECT * /*if:include-deleted*/x/*endif*/",
+            );
+            expect(error.reason).toStartWith(
+                "Invalid condition \"include-deleted\"",
+            );
+            expect(error.column).toBe(15);
+        });
+
+        test("should report unknown directives", () => {
+            for (
+                const template of [
+                    "/*iff:x*/a/*endif*/",
+                    "/*if:x*/a/*endiff*/",
+                    "/*if:x*/a/*endfi*/",
+                    "/*if*/a/*endif*/",
+                ]
+            ) {
+                expect(syntaxError(template).reason).toStartWith(
+                    "Unknown directive",
+                );
+            }
+        });
+
+        test("should leave ordinary comments in place", () => {
             const template =
-                "SELECT * /*if:a*/FROM users /*if:b*/WHERE active = true/*endif*//*endif*/";
-            const result = conditionalString(
-                template,
-                { a: false, b: true } as const,
+                "SELECT /* all */ * /*+ INDEX(t) */ /*TODO: paging*/ /*note*/ FROM t" as string;
+            expect(conditionalString(template, {}) as string).toBe(template);
+        });
+
+        test("should keep comments that only look like directives", () => {
+            const template =
+                "SELECT * /*todo: fix*/ /*note:x*/ FROM t /*end*/" as string;
+            expect(conditionalString(template, {}) as string).toBe(template);
+        });
+
+        test("should shorten long lines in the snippet", () => {
+            const error = syntaxError(
+                `${"x".repeat(100)}/*endif*/${"y".repeat(100)}`,
+            );
+            expect(error.snippet).toBe(
+                `...${"x".repeat(40)}/*endif*/${"y".repeat(31)}...\n${
+                    " ".repeat(43)
+                }^`,
             );
-            expect(result).toBe("SELECT * ");
         });
     });
 
@@ -399,6 +3672,161 @@ describe("conditionalString", () => {
         });
     });
 
+    describe("truthiness presets", () => {
+        test("emptyAware treats empty values as false and 0 as true", () => {
+            const template = "/*if:ids*/IN/*else*/ALL/*endif*/"
+                + " /*if:filters*/F/*endif*//*if:tags*/T/*endif*/"
+                + "/*if:count*/C/*endif*/";
+            expect(
+                emptyAware(template, {
+                    ids: [],
+                    filters: {},
+                    tags: new Set(),
+                    count: 0,
+                }),
+            ).toBe("ALL C");
+            expect(
+                emptyAware(template, {
+                    ids: [ 1 ],
+                    filters: { a: 1 },
+                    tags: new Set([ "a" ]),
+                    count: 0,
+                }),
+            ).toBe("IN FTC");
+        });
+
+        test("emptyAware treats class instances as true", () => {
+            expect(
+                emptyAware("/*if:at*/AT/*endif*/", { at: new Date(0) }),
+            ).toBe("AT");
+        });
+
+        test("presence treats only null and undefined as false", () => {
+            const template = "/*if:a*/A/*endif*//*if:b*/B/*endif*/"
+                + "/*if:c*/C/*endif*//*if:d?*/D/*endif*/";
+            expect(presence(template, { a: "", b: 0, c: null })).toBe("AB");
+        });
+
+        test("strictBoolean treats only true as true", () => {
+            const template = "/*if:a*/A/*endif*//*if:b*/B/*endif*/"
+                + "/*if:!c*/C/*endif*/";
+            expect(strictBoolean(template, { a: true, b: 1, c: "no" })).toBe(
+                "AC",
+            );
+        });
+
+        test("comparisons and predicates are not affected", () => {
+            expect(
+                emptyAware(
+                    "/*if:n == 0*/ZERO/*endif*//*if:nonEmpty(ids)*/IN/*endif*/",
+                    { n: 0, ids: [ 1 ] },
+                ),
+            ).toBe("ZEROIN");
+        });
+
+        test("applies to sql, compile, partial and explain", () => {
+            const template = "SELECT * FROM t/*if:ids*/ WHERE id IN /*:ids*//*endif*/";
+            expect(emptyAware.sql(template, { ids: [] })).toEqual({
+                text: "SELECT * FROM t",
+                values: [],
+            });
+            expect(emptyAware.compile(template)({ ids: [] })).toBe(
+                "SELECT * FROM t",
+            );
+            expect(emptyAware.partial(template, { ids: [] })).toBe(
+                "SELECT * FROM t",
+            );
+            expect(
+                emptyAware.explain(template, { ids: [] }).blocks[0].result,
+            ).toBe(false);
+        });
+
+        test("is kept by withPartials and withPredicates", () => {
+            const extended = emptyAware
+                .withPartials({ p: "/*if:ids*/IN/*endif*/" })
+                .withPredicates({ always: () => true });
+            expect(extended("/*include:p*/", { ids: [] })).toBe("");
+        });
+
+        test("strictBooleans still checks values", () => {
+            expect(() =>
+                emptyAware("/*if:ids*/IN/*endif*/", { ids: [] }, {
+                    strictBooleans: true,
+                })
+            ).toThrow(ConditionalStringDataError);
+        });
+    });
+
+    describe("raw regions and escapes", () => {
+        test("passes the text of a raw region through", () => {
+            const template = "SELECT /*raw*//*+ INDEX(t) *//*if:x*/X/*endif*//*endraw*/"
+                + " * FROM t/*if:a*/ WHERE a/*endif*/";
+            expect(conditionalString(template, { a: true })).toBe(
+                "SELECT /*+ INDEX(t) *//*if:x*/X/*endif*/ * FROM t WHERE a",
+            );
+        });
+
+        test("writes escaped markers without their backslash", () => {
+            expect(
+                conditionalString("/*\\if:a*/ /*\\\\x*/ /*\\=b*/", {}),
+            ).toBe("/*if:a*/ /*\\x*/ /*=b*/");
+        });
+
+        test("escapes markers and keeps raw regions in every profile", () => {
+            expect(
+                htmlString("<!--\\if:a--> /*raw*/<!--if:b-->/*endraw*/", {}),
+            ).toBe("<!--if:a--> <!--if:b-->");
+            const sql = createConditionalString({ syntax: "sql" });
+            expect(
+                sql("a\n-- #\\if b\n-- #if c\nC\n-- #endif\n", { c: false }),
+            ).toBe("a\n-- #if b\n");
+            const mustache = createConditionalString({ syntax: "mustache" });
+            expect(
+                mustache("{{\\name}} {{name}} /*raw*/{{#if}}/*endraw*/", {
+                    name: "Ann",
+                }),
+            ).toBe("{{name}} Ann {{#if}}");
+        });
+
+        test("trims around raw regions but not inside them", () => {
+            expect(
+                conditionalString(
+                    "/*if:a-*/  /*raw*/ x /*endraw*/ /*-endif*/",
+                    { a: true },
+                ),
+            ).toBe(" x ");
+        });
+
+        test("are escaped again by partial rendering", () => {
+            expect(
+                conditionalString.partial(
+                    "/*raw*//*if:q*/ /* c *//*endraw*//*if:a*/A/*endif*/",
+                    { a: true },
+                ),
+            ).toBe("/*\\if:q*/ /* c */A");
+        });
+
+        test("are parsed as text and printed as written", () => {
+            const template = "x /*raw*//*if:a*//*endraw*/ /*\\=b*//*if:c*/C/*endif*/";
+            const nodes = parse(template);
+            expect(nodes[0]).toMatchObject({
+                type: "text",
+                value: "x /*if:a*/ /*=b*/",
+            });
+            expect(print(nodes)).toBe(template);
+            expect(print(parse("/*raw*//*endraw*//*if:a*/A/*endif*/"))).toBe(
+                "/*raw*//*endraw*//*if:a*/A/*endif*/",
+            );
+        });
+
+        test("rejects unclosed raw regions and stray endraw markers", () => {
+            expect(() => conditionalString("a /*raw*/ b" as string, {}))
+                .toThrow("Unclosed raw block \"/*raw*/\"");
+            expect(() => conditionalString("a /*endraw*/" as string, {}))
+                .toThrow("Unexpected \"/*endraw*/\"");
+        });
+    });
+
     describe("edge cases", () => {
         test("should handle template without any conditions", () => {
             const template = "SELECT * FROM users WHERE id = $1";
@@ -496,6 +3924,44 @@ WHERE 1=1`;
             expect(result).toContain("AND u.active = true");
         });
 
+        test("dynamic WHERE clause without 1=1", () => {
+            const template = `
+                SELECT u.id, u.name, u.email
+                FROM users u
+                /*where*/
+                /*if:searchTerm*/AND (u.name ILIKE /*:searchTerm*/ OR u.email ILIKE /*:searchTerm*/)/*endif*/
+                /*if:roleFilter*/AND u.role = /*:roleFilter*//*endif*/
+                /*if:activeOnly*/AND u.active = true/*endif*/
+                /*endwhere*/
+                ORDER BY u.created_at DESC
+            `;
+            const query = conditionalString.sql(
+                template,
+                {
+                    searchTerm: "john",
+                    roleFilter: null,
+                    activeOnly: true,
+                } as const,
+            );
+            expect(query.text).toContain(
+                "WHERE (u.name ILIKE $1 OR u.email ILIKE $1)\n"
+                    + "                \n"
+                    + "                AND u.active = true\n",
+            );
+            expect(query.values).toEqual([ "john" ]);
+
+            const all = conditionalString.sql(
+                template,
+                {
+                    searchTerm: "",
+                    roleFilter: null,
+                    activeOnly: false,
+                } as const,
+            );
+            expect(all.text).not.toContain("WHERE");
+            expect(all.values).toEqual([]);
+        });
+
         test("dynamic JOIN", () => {
             const template = `
                 SELECT o.id, o.total
@@ -531,6 +3997,31 @@ WHERE 1=1`;
             expect(result).toContain("HAVING COUNT(*) >= $1");
         });
 
+        test("conditional GROUP BY and HAVING clauses", () => {
+            const template = `
+                SELECT /*list:, */
+                    user_id,
+                    /*if:byStatus*/status,/*endif*/
+                    COUNT(*) as order_count,
+                /*endlist*/
+                FROM orders
+                /*where*//*if:completedOnly*/AND status = 'completed'/*endif*//*endwhere*/
+                GROUP BY /*list:, */user_id, /*if:byStatus*/status/*endif*//*endlist*/
+                /*having*//*if:minOrders*/AND COUNT(*) >= /*:minOrders*//*endif*//*endhaving*/
+                ORDER BY order_count DESC
+            `;
+            const query = conditionalString.sql(
+                template,
+                { byStatus: false, completedOnly: false, minOrders: 5 } as const,
+            );
+            expect(query.text).toContain("SELECT user_id,");
+            expect(query.text).toContain("COUNT(*) as order_count\n");
+            expect(query.text).not.toContain("WHERE");
+            expect(query.text).toContain("GROUP BY user_id\n");
+            expect(query.text).toContain("HAVING COUNT(*) >= $1\n");
+            expect(query.values).toEqual([ 5 ]);
+        });
+
         test("dynamic conditions with static condition type using .with()", () => {
             const someVar = Math.random() > 0.5;
 